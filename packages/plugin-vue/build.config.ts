@@ -3,12 +3,17 @@
 import { defineBuildConfig } from 'unbuild'
 
 export default defineBuildConfig({
-  entries: ['src/index'],
+  entries: ['src/index', 'src/worker'],
   externals: ['vite', 'vue/compiler-sfc', '@vue/compiler-sfc'],
   clean: true,
   declaration: true,
   rollup: {
     emitCJS: true,
     inlineDependencies: true,
+    dts: {
+      // keep the types of bundled dependencies as imports: only the sources
+      // are inlined, their declarations can't be parsed by the dts bundler
+      respectExternal: false,
+    },
   },
 })
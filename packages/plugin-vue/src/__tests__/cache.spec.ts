@@ -0,0 +1,143 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { afterAll, describe, expect, test } from 'vitest'
+import { invalidateTypeCache } from 'vue/compiler-sfc'
+import type { ResolvedOptions } from '..'
+import { readCache, writeCache } from '../cache'
+import {
+  buildFixture,
+  createCountingCompiler,
+  createFixture,
+  getChunkCode,
+  removeFixtures,
+  writeFiles,
+} from './utils'
+
+afterAll(removeFixtures)
+
+const files = {
+  'main.js': `import App from './App.vue'\nexport default App\n`,
+  'types.ts': `export interface Props { msg: string }\n`,
+  'App.vue': `<script setup lang="ts">
+import type { Props } from './types'
+defineProps<Props>()
+</script>
+
+<template>
+  <h1 class="title">{{ msg }}</h1>
+</template>
+
+<style scoped>
+.title { color: red }
+</style>
+`,
+}
+
+// each build runs a new plugin instance with a new compiler, like a restart
+async function buildWithCache(root: string, options = {}) {
+  const { compiler, calls } = createCountingCompiler()
+  const output = await buildFixture(root, {
+    compiler,
+    cache: { dir: '.cache' },
+    ...options,
+  })
+  return { code: getChunkCode(output), calls }
+}
+
+describe('persistent cache', () => {
+  test('reuses compile results after a restart', async () => {
+    const root = createFixture(files)
+    const first = await buildWithCache(root)
+    expect(first.calls.script).toBe(1)
+    expect(first.calls.style).toBe(1)
+    expect(fs.readdirSync(path.join(root, '.cache')).length).toBeGreaterThan(0)
+
+    const second = await buildWithCache(root)
+    expect(second.calls).toEqual({ script: 0, template: 0, style: 0 })
+    expect(second.code).toBe(first.code)
+  })
+
+  test('is invalidated when the content changes', async () => {
+    const root = createFixture(files)
+    await buildWithCache(root)
+    writeFiles(root, {
+      'App.vue': files['App.vue'].replace('{{ msg }}', '{{ msg }}!'),
+    })
+    const { code, calls } = await buildWithCache(root)
+    expect(calls.script).toBe(1)
+    expect(code).toContain('!')
+    // the style block didn't change
+    expect(calls.style).toBe(0)
+  })
+
+  test('is invalidated when the options change', async () => {
+    const root = createFixture(files)
+    await buildWithCache(root)
+    const { calls } = await buildWithCache(root, {
+      template: { compilerOptions: { whitespace: 'preserve' } },
+    })
+    expect(calls.script).toBe(1)
+  })
+
+  test('is invalidated when an imported type changes', async () => {
+    const root = createFixture(files)
+    const first = await buildWithCache(root)
+    expect(first.code).not.toContain('count')
+    writeFiles(root, {
+      'types.ts': `export interface Props { msg: string; count: number }\n`,
+    })
+    // compiler-sfc caches resolved types in memory, unlike after a restart
+    invalidateTypeCache(path.join(root, 'types.ts'))
+    const second = await buildWithCache(root)
+    expect(second.calls.script).toBe(1)
+    expect(second.code).toContain('count')
+  })
+})
+
+describe('cache size', () => {
+  function createOptions(maxSize: number) {
+    const root = createFixture({})
+    const dir = path.join(root, 'cache')
+    const options = {
+      root,
+      cacheDir: root,
+      cache: { dir, maxSize },
+    } as ResolvedOptions
+    return { dir, options }
+  }
+
+  // `{"result":"..."}` takes up `size` bytes
+  function createEntry(size: number) {
+    return { result: 'x'.repeat(size - 13) }
+  }
+
+  function setMtime(dir: string, key: string, seconds: number) {
+    const time = new Date(Date.now() - seconds * 1000)
+    fs.utimesSync(path.join(dir, `${key}.json`), time, time)
+  }
+
+  test('prunes least recently used entries at maxSize', () => {
+    const { dir, options } = createOptions(1000)
+    for (let i = 0; i < 3; i++) {
+      writeCache(`entry${i}`, createEntry(300), options)
+      setMtime(dir, `entry${i}`, 100 - i)
+    }
+    // entry0 is now the most recently used
+    expect(readCache('entry0', options)).toBeDefined()
+
+    writeCache('entry3', createEntry(300), options)
+    // pruned to 80% of maxSize
+    expect(fs.readdirSync(dir).sort()).toEqual(['entry0.json', 'entry3.json'])
+  })
+
+  test("doesn't count overwritten entries twice", () => {
+    const { dir, options } = createOptions(1000)
+    writeCache('a', createEntry(450), options)
+    setMtime(dir, 'a', 100)
+    for (let i = 0; i < 3; i++) {
+      writeCache('b', createEntry(450), options)
+    }
+    // 900 bytes never exceeded maxSize
+    expect(fs.readdirSync(dir).sort()).toEqual(['a.json', 'b.json'])
+  })
+})
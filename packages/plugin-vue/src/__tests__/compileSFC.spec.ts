@@ -0,0 +1,247 @@
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import { afterAll, describe, expect, test } from 'vitest'
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping'
+import * as compiler from 'vue/compiler-sfc'
+import { compileSFC } from '../compileSFC'
+import type { ResolvedOptions } from '..'
+import {
+  createDescriptor,
+  getDescriptor,
+  getSrcOwners,
+  setSrcDescriptor,
+} from '../utils/descriptorCache'
+import { createFixture, removeFixtures } from './utils'
+
+afterAll(removeFixtures)
+
+const root = createFixture({
+  'template.html': `<p class="src">{{ msg }}</p>\n`,
+  'style.css': `.src { color: green }\n`,
+})
+
+function compile(source: string, options = {}) {
+  return compileSFC(source, 'Comp.vue', { root, ...options })
+}
+
+describe('compileSFC', () => {
+  test('inlines the script and template of JS components', async () => {
+    const result = await compile(`<script setup>
+const msg = 'hello'
+</script>
+
+<template>
+  <p>{{ msg }}</p>
+</template>
+`)
+    expect(result.errors).toEqual([])
+    expect(result.descriptor!.filename).toBe(path.join(root, 'Comp.vue'))
+    expect(result.code).toContain(`const msg = 'hello'`)
+    expect(result.code).toContain('_toDisplayString(msg)')
+    expect(result.map).toBeTruthy()
+    expect(result.script).toBeNull()
+    expect(result.template).toBeNull()
+  })
+
+  test('transpiles TypeScript scripts', async () => {
+    const result = await compile(`<script setup lang="ts">
+const count: number = 1
+defineProps<{ msg: string }>()
+</script>
+
+<template>
+  <p>{{ msg }} {{ count }}</p>
+</template>
+`)
+    expect(result.errors).toEqual([])
+    expect(result.code).toContain('?vue&type=script&setup=true&lang.ts')
+    expect(result.script!.code).toContain('const count = 1')
+    expect(result.script!.code).toContain(
+      'msg: { type: String, required: true }',
+    )
+    expect(result.script!.code).not.toContain(': number')
+  })
+
+  test('compiles pug templates as a module', async () => {
+    const result = await compile(`<script>
+export default { data: () => ({ msg: 'hello' }) }
+</script>
+
+<template lang="pug">
+p.pug {{ msg }}
+</template>
+`)
+    expect(result.errors).toEqual([])
+    expect(result.code).toContain('?vue&type=template&lang.js')
+    expect(result.template!.code).toContain('export function render')
+    expect(result.template!.code).toContain('class: "pug"')
+  })
+
+  test('compiles src templates', async () => {
+    const result = await compile(`<script>
+export default { data: () => ({ msg: 'hello' }) }
+</script>
+
+<template src="./template.html"></template>
+`)
+    expect(result.errors).toEqual([])
+    expect(result.template!.code).toContain('export function render')
+    expect(result.template!.code).toContain('class: "src"')
+  })
+
+  test('compiles scoped, module and src styles', async () => {
+    const result = await compile(`<template>
+  <p class="scoped">hello</p>
+</template>
+
+<style scoped>
+.scoped { color: red }
+</style>
+
+<style module>
+.module { color: blue }
+</style>
+
+<style src="./style.css"></style>
+`)
+    expect(result.errors).toEqual([])
+    const [scoped, module, src] = result.styles
+    const id = result.descriptor!.id
+    expect(scoped).toMatchObject({ index: 0, lang: 'css', scoped: true })
+    expect(scoped.code).toContain(`.scoped[data-v-${id}]`)
+    expect(module).toMatchObject({ index: 1, scoped: false, module: true })
+    // class names are not generated
+    expect(module.code).toContain('.module')
+    expect(src).toMatchObject({ index: 2, scoped: false, module: false })
+    expect(src.code).toContain('color: green')
+    expect(src.map.sources).toEqual([path.join(root, 'style.css')])
+  })
+
+  test('chains the maps of style pre-processors', async () => {
+    const source = `<template>
+  <p class="a"><span class="b">hello</span></p>
+</template>
+
+<style lang="scss">
+$color: red;
+.a {
+  .b { color: $color; }
+}
+</style>
+
+<style lang="less">
+@color: blue;
+.a {
+  .b { background: @color; }
+}
+</style>
+`
+    // sass and less are dependencies of the playground
+    const playgroundRequire = createRequire(
+      path.resolve(__dirname, '../../../../playground/vue-sourcemap/index.js'),
+    )
+    const result = await compile(source, {
+      compiler: {
+        ...compiler,
+        compileStyleAsync: (options) =>
+          compiler.compileStyleAsync({
+            ...options,
+            preprocessCustomRequire: playgroundRequire,
+          }),
+      },
+    })
+    expect(result.errors).toEqual([])
+
+    // generated `prop` of each style, in the SFC
+    const locate = (index: number, prop: string) => {
+      const { code, map } = result.styles[index]
+      const lines = code.split('\n')
+      const line = lines.findIndex((line) => line.includes(prop)) + 1
+      return originalPositionFor(new TraceMap(map), {
+        line,
+        column: lines[line - 1].indexOf(prop),
+      })
+    }
+    const file = path.join(root, 'Comp.vue')
+    expect(result.styles[0].code).toContain('.a .b')
+    expect(result.styles[0].code).not.toContain('sourceMappingURL')
+    expect(locate(0, 'color')).toMatchObject({ source: file, line: 8 })
+    expect(locate(1, 'background')).toMatchObject({ source: file, line: 15 })
+  })
+
+  test('collects parse errors', async () => {
+    const result = await compile(`<template>
+  <div>
+</template>
+`)
+    expect(result.code).toBe('')
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatchObject({
+      id: path.join(root, 'Comp.vue'),
+      pluginCode: 'VUE_PARSE_ERROR',
+    })
+  })
+
+  test('collects script errors', async () => {
+    const result = await compile(`<script setup>
+defineProps()
+defineProps()
+</script>
+`)
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatchObject({
+      pluginCode: 'VUE_SCRIPT_ERROR',
+      loc: { line: 3 },
+    })
+  })
+
+  test('collects template errors', async () => {
+    const result = await compile(`<template>
+  <p v-if>hello</p>
+</template>
+`)
+    expect(result.errors).toHaveLength(1)
+    expect(result.errors[0]).toMatchObject({
+      pluginCode: 'VUE_TEMPLATE_ERROR',
+      loc: { line: 2 },
+    })
+  })
+
+  test('leaves the descriptors of a dev server alone', async () => {
+    // compiled by a dev server in the same process
+    const filename = path.join(root, 'Served.vue')
+    const { descriptor } = createDescriptor(
+      filename,
+      `<style src="./style.css"></style>\n`,
+      { compiler, root, sourceMap: true } as ResolvedOptions,
+    )
+    const styleFile = path.join(root, 'style.css')
+    setSrcDescriptor(styleFile, descriptor)
+
+    const result = await compileSFC(
+      `<template>\n  <p>edited</p>\n</template>\n\n<style src="./style.css"></style>\n`,
+      filename,
+      { root, isProduction: true },
+    )
+    expect(result.errors).toEqual([])
+    expect(result.descriptor!.id).not.toBe(descriptor.id)
+
+    expect(getDescriptor(filename, {} as ResolvedOptions, false)).toBe(
+      descriptor,
+    )
+    expect(getSrcOwners(styleFile)).toEqual([descriptor])
+  })
+
+  test('compiles files unknown to a dev server without caching them', async () => {
+    const filename = path.join(root, 'Once.vue')
+    await compileSFC(`<style src="./style.css"></style>\n`, filename, {
+      root,
+    })
+    expect(getDescriptor(filename, {} as ResolvedOptions, false)).toBe(
+      undefined,
+    )
+    expect(getSrcOwners(path.join(root, 'style.css'))).not.toContainEqual(
+      expect.objectContaining({ filename }),
+    )
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, test } from 'vitest'
+import * as compiler from 'vue/compiler-sfc'
+import type { ResolvedOptions } from '..'
+import { canPatchCssVars, genCssVarsCode } from '../cssVars'
+import { isOnlyTemplateChanged } from '../handleHotUpdate'
+
+// options of the dev server with HMR enabled
+const options = {
+  compiler,
+  isProduction: false,
+  devServer: { config: { server: {} } },
+} as unknown as ResolvedOptions
+
+function parse(style: string, template = '<p>{{ color }}</p>') {
+  const { descriptor } = compiler.parse(
+    `<script setup>
+const color = 'red'
+</script>
+
+<template>
+  ${template}
+</template>
+
+<style>
+${style}
+</style>
+`,
+    { filename: '/src/Comp.vue' },
+  )
+  descriptor.id = 'x'
+  return descriptor
+}
+
+describe('CSS vars during dev', () => {
+  test('are injected when styles use v-bind()', () => {
+    const descriptor = parse('p { color: v-bind(color) }')
+    expect(canPatchCssVars(descriptor, options, false)).toBe(true)
+    // not for SSR, builds or without HMR
+    expect(canPatchCssVars(descriptor, options, true)).toBe(false)
+    expect(
+      canPatchCssVars(
+        descriptor,
+        { ...options, isProduction: true, devServer: undefined },
+        false,
+      ),
+    ).toBe(false)
+
+    const script = compiler.compileScript(descriptor, { id: 'x' })
+    const code = genCssVarsCode(descriptor, script, options)
+    expect(code).toContain('"x-color": (_ctx.color)')
+    expect(code).toContain('_sfc_main.setup = (props, ctx) => {')
+  })
+
+  test("are injected when styles don't use v-bind() yet", () => {
+    const descriptor = parse('p { color: red }')
+    expect(canPatchCssVars(descriptor, options, false)).toBe(true)
+
+    const script = compiler.compileScript(descriptor, { id: 'x' })
+    const code = genCssVarsCode(descriptor, script, options)
+    expect(code).toContain('__vite_cssVars.value = (_ctx) => ({})')
+    expect(code).toContain('_sfc_main.setup = (props, ctx) => {')
+  })
+
+  test('are not injected into components without styles', () => {
+    const { descriptor } = compiler.parse(`<template><p></p></template>\n`, {
+      filename: '/src/Comp.vue',
+    })
+    expect(canPatchCssVars(descriptor, options, false)).toBe(false)
+  })
+
+  test('edits of v-bind() only re-render', () => {
+    const prev = parse('p { color: v-bind(color) }')
+    expect(
+      isOnlyTemplateChanged(
+        prev,
+        parse('p { background: v-bind(color) }'),
+        options,
+      ),
+    ).toBe(true)
+  })
+
+  test('adding the first v-bind() or removing the last one only re-renders', () => {
+    const plain = parse('p { color: red }')
+    const bound = parse('p { color: v-bind(color) }')
+    expect(isOnlyTemplateChanged(plain, bound, options)).toBe(true)
+    expect(isOnlyTemplateChanged(bound, plain, options)).toBe(true)
+  })
+})
@@ -0,0 +1,139 @@
+import path from 'node:path'
+import { afterAll, describe, expect, test } from 'vitest'
+import type { RollupWarning } from 'rollup'
+import type { Plugin } from 'vite'
+import type { Options } from '..'
+import {
+  buildFixture,
+  createFixture,
+  getChunkCode,
+  removeFixtures,
+} from './utils'
+
+afterAll(removeFixtures)
+
+const files = {
+  'main.js': `export { default as A } from './A.vue'\nexport { default as B } from './B.vue'\n`,
+  'A.vue': `<template>
+  <p>a</p>
+</template>
+
+<docs>
+# A
+</docs>
+`,
+  'B.vue': `<template>
+  <p>b</p>
+</template>
+
+<route>
+path: /b
+</route>
+
+<docs src="./shared.md"></docs>
+`,
+  'shared.md': `# Shared\n`,
+}
+
+async function build(options: Options, extraFiles = {}) {
+  const root = createFixture({ ...files, ...extraFiles })
+  const warnings: RollupWarning[] = []
+  const output = buildFixture(root, options, {
+    build: {
+      rollupOptions: { onwarn: (warning) => void warnings.push(warning) },
+    },
+  })
+  return { root, output, warnings }
+}
+
+// `<type> in <SFC>` of the unhandled block warnings
+function unhandledBlocks(root: string, warnings: RollupWarning[]) {
+  return warnings
+    .filter((warning) => warning.pluginCode === 'VUE_UNHANDLED_CUSTOM_BLOCK')
+    .map(
+      (warning) =>
+        `${warning.message.match(/^<(\w+)>/)![1]} in ${path.relative(
+          root,
+          warning.loc!.file!,
+        )}`,
+    )
+    .sort()
+}
+
+describe('unhandled custom blocks', () => {
+  test('are removed with a warning by default', async () => {
+    const { root, output, warnings } = await build({})
+    const code = getChunkCode(await output)
+
+    expect(unhandledBlocks(root, warnings)).toEqual([
+      'docs in A.vue',
+      'docs in B.vue',
+      'route in B.vue',
+    ])
+    expect(code).not.toContain('# A')
+    expect(code).not.toContain('# Shared')
+  })
+
+  test('policy by block type', async () => {
+    const { root, output, warnings } = await build({
+      unhandledCustomBlocks: { docs: 'drop', '*': 'warn' },
+    })
+    await output
+    expect(unhandledBlocks(root, warnings)).toEqual(['route in B.vue'])
+  })
+
+  test('fail the build with the error policy', async () => {
+    const { output } = await build({ unhandledCustomBlocks: 'error' })
+    await expect(output).rejects.toThrow(
+      '<docs> block is not handled by any plugin.',
+    )
+  })
+
+  test('blocks handled by the customBlocks option are not reported', async () => {
+    const { root, output, warnings } = await build({
+      customBlocks: {
+        docs: 'strip',
+        route: () => 'export default () => {}',
+      },
+    })
+    await output
+    expect(unhandledBlocks(root, warnings)).toEqual([])
+  })
+
+  test('src blocks are reported for the SFC importing them', async () => {
+    // C.vue also imports shared.md. Its block at the index of the one of B.vue
+    // is an inline <i18n> block.
+    const root = createFixture({
+      ...files,
+      'main.js': `export { default as B } from './B.vue'\nexport { default as C } from './C.vue'\n`,
+      'C.vue': `<template>\n  <p>c</p>\n</template>\n\n<docs src="./shared.md"></docs>\n\n<i18n>\n{}\n</i18n>\n`,
+    })
+    // check the blocks of shared.md once C.vue, the last SFC to link it, is
+    // compiled
+    let linked: () => void
+    const cLinked = new Promise<void>((resolve) => (linked = resolve))
+    const waitForC: Plugin = {
+      name: 'wait-for-c',
+      async transform(_, id) {
+        if (id === path.join(root, 'C.vue')) linked()
+        if (id.startsWith(path.join(root, 'shared.md'))) await cLinked
+      },
+    }
+    const warnings: RollupWarning[] = []
+    await buildFixture(
+      root,
+      { unhandledCustomBlocks: { route: 'drop' } },
+      {
+        plugins: [waitForC],
+        build: {
+          rollupOptions: { onwarn: (warning) => void warnings.push(warning) },
+        },
+      },
+    )
+    expect(unhandledBlocks(root, warnings)).toEqual([
+      'docs in B.vue',
+      'docs in C.vue',
+      'i18n in C.vue',
+    ])
+  })
+})
@@ -0,0 +1,224 @@
+import { describe, expect, test, vi } from 'vitest'
+import * as compiler from 'vue/compiler-sfc'
+import type { ResolvedOptions } from '..'
+import {
+  DiagnosticCodes,
+  captureCompilerWarnings,
+  createParseError,
+  createScriptError,
+  createStyleDiagnostic,
+  createTemplateDiagnostic,
+  createTypeDiagnostic,
+} from '../utils/error'
+
+const options = { compiler } as ResolvedOptions
+
+function parse(source: string) {
+  return compiler.parse(source, { filename: '/src/Comp.vue' })
+}
+
+// meta.vue.start / end for the first occurrence of `text` after `from`
+function rangeOf(source: string, text: string, from = 0) {
+  const offset = source.indexOf(text, from)
+  const toPosition = (offset: number) => {
+    const before = source.slice(0, offset).split('\n')
+    return {
+      line: before.length,
+      column: before[before.length - 1].length,
+      offset,
+    }
+  }
+  return { start: toPosition(offset), end: toPosition(offset + text.length) }
+}
+
+describe('diagnostics', () => {
+  test('parse errors', () => {
+    const source = `<template>\n  <div>\n</template>\n`
+    const { descriptor, errors } = parse(source)
+    const error = createParseError(descriptor, errors[0], options)
+
+    const { start } = rangeOf(source, '<div>')
+    expect(error).toMatchObject({
+      id: '/src/Comp.vue',
+      plugin: 'vue',
+      pluginCode: 'VUE_PARSE_ERROR',
+      loc: { file: '/src/Comp.vue', line: 2, column: 2 },
+      meta: { vue: { block: 'template', start } },
+    })
+    expect(error.frame).toContain('2  |    <div>')
+  })
+
+  test('script errors', () => {
+    const source = `<script setup>\nconst a = 1\ndefineProps()\ndefineProps()\n</script>\n`
+    const { descriptor } = parse(source)
+    let error: any
+    try {
+      compiler.compileScript(descriptor, { id: 'x' })
+    } catch (e) {
+      error = createScriptError(descriptor, e, options)
+    }
+
+    expect(error).toMatchObject({
+      pluginCode: 'VUE_SCRIPT_ERROR',
+      message: expect.stringContaining('duplicate defineProps() call'),
+      loc: { line: 4, column: 0 },
+      meta: {
+        vue: {
+          block: 'script',
+          ...rangeOf(source, 'defineProps()', source.lastIndexOf('define')),
+        },
+      },
+    })
+    expect(error.frame).toContain('4  |  defineProps()')
+  })
+
+  test('template errors', () => {
+    const source = `<template>\n  <p v-if>hello</p>\n</template>\n`
+    const { descriptor } = parse(source)
+    const template = descriptor.template!
+    const { errors } = compiler.compileTemplate({
+      id: 'x',
+      filename: descriptor.filename,
+      source: template.content,
+      // like the plugin, so that locations point to the SFC
+      inMap: template.map,
+    })
+    const error = createTemplateDiagnostic(
+      descriptor,
+      template.content,
+      errors[0],
+      options,
+    )
+
+    expect(error).toMatchObject({
+      pluginCode: 'VUE_TEMPLATE_ERROR',
+      loc: { line: 2, column: 5 },
+      meta: {
+        vue: {
+          block: 'template',
+          start: rangeOf(source, 'v-if').start,
+          compilerCode: (errors[0] as compiler.CompilerError).code,
+        },
+      },
+    })
+    expect(error.frame).toContain('2  |    <p v-if>hello</p>')
+  })
+
+  test('template tips with a code frame', () => {
+    const source = `<template>\n  <p>hello</p>\n</template>\n`
+    const { descriptor } = parse(source)
+    const content = descriptor.template!.content
+    const offset = content.indexOf('<p>')
+    const tip = `a tip\n${compiler.generateCodeFrame(
+      content,
+      offset,
+      offset + 3,
+    )}`
+    const warning = createTemplateDiagnostic(
+      descriptor,
+      content,
+      tip,
+      options,
+      true,
+    )
+
+    expect(warning).toMatchObject({
+      pluginCode: 'VUE_TEMPLATE_WARNING',
+      message: 'a tip',
+      meta: { vue: { block: 'template', ...rangeOf(source, '<p>') } },
+    })
+  })
+
+  test('style errors', () => {
+    const source = `<style>\n.a { color: red }\n</style>\n\n<style>\n.b {\n  color: blue;\n}\n</style>\n`
+    const { descriptor } = parse(source)
+    const block = descriptor.styles[1]
+    // PostCSS locations are 1-based and relative to the compiled code
+    const error = createStyleDiagnostic(
+      descriptor,
+      1,
+      descriptor.filename,
+      block.content,
+      {
+        reason: 'Unknown word',
+        line: 3,
+        column: 3,
+        endLine: 3,
+        endColumn: 8,
+      },
+      options,
+    )
+
+    expect(error).toMatchObject({
+      pluginCode: 'VUE_STYLE_ERROR',
+      message: 'Unknown word',
+      loc: { line: 7, column: 2 },
+      meta: {
+        vue: {
+          block: 'style',
+          index: 1,
+          ...rangeOf(source, 'color', source.indexOf('.b')),
+        },
+      },
+    })
+  })
+
+  test('detects the block of a location', () => {
+    const source = `<template>\n  <p>hello</p>\n</template>\n\n<i18n>\n{ "hello": "world" }\n</i18n>\n`
+    const { descriptor } = parse(source)
+    const create = (line: number, column: number) =>
+      createTypeDiagnostic(
+        descriptor,
+        'type error',
+        { line, column },
+        { line, column: column + 1 },
+        options,
+      ).meta!.vue
+
+    expect(create(2, 2)).toMatchObject({ block: 'template' })
+    expect(create(6, 2)).toMatchObject({ block: 'custom', index: 0 })
+    expect(create(4, 0)).toMatchObject({ block: 'sfc' })
+    expect(create(2, 2).category).toBe('typeErrors')
+  })
+
+  test('codes', () => {
+    expect(Object.values(DiagnosticCodes)).toEqual([
+      'VUE_PARSE_ERROR',
+      'VUE_SCRIPT_ERROR',
+      'VUE_SCRIPT_WARNING',
+      'VUE_TEMPLATE_ERROR',
+      'VUE_TEMPLATE_WARNING',
+      'VUE_STYLE_ERROR',
+      'VUE_STYLE_WARNING',
+      'VUE_UNUSED_PROP',
+      'VUE_CUSTOM_BLOCK_ERROR',
+      'VUE_UNHANDLED_CUSTOM_BLOCK',
+      'VUE_TYPE_ERROR',
+    ])
+  })
+})
+
+describe('captureCompilerWarnings', () => {
+  test('intercepts the warnings of compiler-sfc', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    try {
+      const { descriptor } = parse(
+        `<script setup>\nimport { defineProps } from 'vue'\ndefineProps(['msg'])\n</script>\n`,
+      )
+      const [result, warnings] = captureCompilerWarnings(() => {
+        console.warn('unrelated')
+        return compiler.compileScript(descriptor, { id: 'x' })
+      })
+
+      expect(result.content).toContain('msg')
+      // deprecations are detected from the compiled script instead
+      expect(warnings).toEqual([])
+      // other messages are still logged, console.warn is restored
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn).toHaveBeenCalledWith('unrelated')
+      expect(console.warn).toBe(warn)
+    } finally {
+      warn.mockRestore()
+    }
+  })
+})
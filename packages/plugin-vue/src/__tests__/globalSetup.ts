@@ -0,0 +1,38 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { build } from 'vite'
+
+// 构建一份当前源码的插件供需要 worker 线程的测试使用：worker 只能加载构建后的
+// `worker.mjs`，不能使用可能过期或不存在的 dist。
+
+const pkgDir = fileURLToPath(new URL('../..', import.meta.url))
+// inside the package, so that its dependencies resolve
+const outDir = path.join(pkgDir, 'node_modules/.vitest-dist')
+
+export async function setup(): Promise<void> {
+  await build({
+    root: pkgDir,
+    configFile: false,
+    logLevel: 'silent',
+    build: {
+      outDir,
+      emptyOutDir: true,
+      minify: false,
+      // dependencies are external
+      ssr: true,
+      rollupOptions: {
+        input: {
+          index: path.join(pkgDir, 'src/index.ts'),
+          worker: path.join(pkgDir, 'src/worker.ts'),
+        },
+        output: { format: 'es', entryFileNames: '[name].mjs' },
+      },
+    },
+  })
+  process.env.VITE_PLUGIN_VUE_TEST_DIST = outDir
+}
+
+export function teardown(): void {
+  fs.rmSync(outDir, { recursive: true, force: true })
+}
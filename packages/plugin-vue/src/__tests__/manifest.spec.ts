@@ -0,0 +1,176 @@
+import { afterAll, describe, expect, test } from 'vitest'
+import type { Plugin } from 'vite'
+import type { RollupWatcher } from 'rollup'
+import type { Options } from '..'
+import type { ComponentManifest } from '../manifest'
+import {
+  buildFixture,
+  createFixture,
+  getAsset,
+  removeFixtures,
+  writeFiles,
+} from './utils'
+
+afterAll(removeFixtures)
+
+const files = {
+  'main.js': `import Counter from './src/Counter.vue'\nexport default Counter\n`,
+  'src/Counter.vue': `<script setup lang="ts">
+import { defineAsyncComponent } from 'vue'
+const Chart = defineAsyncComponent(() => import('./Chart.vue'))
+defineProps<{ initial: number }>()
+defineEmits<{ (e: 'change', value: number): void }>()
+</script>
+
+<template>
+  <Chart />
+</template>
+
+<style scoped>
+.counter { color: red }
+</style>
+
+<style module>
+.value { color: blue }
+</style>
+
+<docs>
+# Counter
+</docs>
+`,
+  'src/Chart.vue': `<script>
+export default {
+  props: ['data'],
+  emits: { select: null },
+}
+</script>
+
+<template>
+  <canvas />
+</template>
+`,
+}
+
+const options: Options = {
+  manifest: true,
+  customBlocks: { docs: 'strip' },
+}
+
+describe('manifest', () => {
+  test('describes the compiled SFCs', async () => {
+    const root = createFixture(files)
+    const output = await buildFixture(root, options)
+    const manifest: ComponentManifest = JSON.parse(
+      getAsset(output, 'vue-manifest.json')!,
+    )
+
+    expect(Object.keys(manifest)).toEqual(['src/Chart.vue', 'src/Counter.vue'])
+    expect(manifest['src/Counter.vue']).toMatchObject({
+      file: 'src/Counter.vue',
+      scopeId: `data-v-${manifest['src/Counter.vue'].id}`,
+      setup: true,
+      lang: 'ts',
+      props: ['initial'],
+      emits: ['change'],
+      styles: [
+        { index: 0, lang: 'css', scoped: true, module: false },
+        { index: 1, lang: 'css', scoped: false, module: true },
+      ],
+      customBlocks: ['docs'],
+      asyncDeps: ['src/Chart.vue'],
+    })
+    expect(manifest['src/Chart.vue']).toMatchObject({
+      scopeId: null,
+      setup: false,
+      lang: 'js',
+      props: ['data'],
+      emits: ['select'],
+      styles: [],
+      customBlocks: [],
+      asyncDeps: [],
+    })
+  })
+
+  test('only collects emits with a static name', async () => {
+    const root = createFixture({
+      'main.js': `import Comp from './Comp.vue'\nexport default Comp\n`,
+      'Comp.vue': `<script>
+import { defineComponent } from 'vue'
+const dynamic = 'dynamic'
+export default defineComponent({
+  emits: { change: null, 'update:value': null, 1: null, [dynamic]: null },
+  methods: { emitChange() { this.$emit('change') } },
+})
+</script>
+`,
+    })
+    const output = await buildFixture(root, options)
+    const manifest: ComponentManifest = JSON.parse(
+      getAsset(output, 'vue-manifest.json')!,
+    )
+    expect(manifest['Comp.vue'].emits).toEqual(['change', 'update:value'])
+  })
+
+  test('keeps the entries of unchanged SFCs in watch mode', async () => {
+    const root = createFixture(files)
+    const manifests: ComponentManifest[] = []
+    const capture: Plugin = {
+      name: 'capture-manifest',
+      generateBundle(_, bundle) {
+        const asset = bundle['vue-manifest.json']
+        if (asset?.type === 'asset') {
+          manifests.push(JSON.parse(String(asset.source)))
+        }
+      },
+    }
+    const watcher = (await buildFixture(root, options, {
+      plugins: [capture],
+      build: { watch: {} },
+    })) as unknown as RollupWatcher
+
+    const nextBuild = () =>
+      new Promise<void>((resolve, reject) => {
+        const onEvent = (event: any) => {
+          if (event.code === 'ERROR') {
+            watcher.off('event', onEvent)
+            reject(event.error)
+          } else if (event.code === 'END') {
+            watcher.off('event', onEvent)
+            resolve()
+          }
+        }
+        watcher.on('event', onEvent)
+      })
+
+    try {
+      await nextBuild()
+      expect(Object.keys(manifests[0])).toEqual([
+        'src/Chart.vue',
+        'src/Counter.vue',
+      ])
+
+      // only Chart.vue is transformed again
+      writeFiles(root, {
+        'src/Chart.vue': files['src/Chart.vue'].replace("'data'", "'items'"),
+      })
+      await nextBuild()
+      expect(Object.keys(manifests[1])).toEqual([
+        'src/Chart.vue',
+        'src/Counter.vue',
+      ])
+      expect(manifests[1]['src/Chart.vue'].props).toEqual(['items'])
+
+      // Chart.vue is no longer part of the build
+      writeFiles(root, {
+        'src/Counter.vue': files['src/Counter.vue'].replace(
+          "() => import('./Chart.vue')",
+          '() => Promise.resolve({})',
+        ),
+      })
+      await nextBuild()
+      expect(Object.keys(manifests[2])).toEqual(['src/Counter.vue'])
+    } finally {
+      await watcher.close()
+    }
+  })
+})
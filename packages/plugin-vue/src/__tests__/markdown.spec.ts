@@ -0,0 +1,161 @@
+import path from 'node:path'
+import { describe, expect, test } from 'vitest'
+import * as compiler from 'vue/compiler-sfc'
+import type { ResolvedOptions } from '..'
+import { markdownToSFC } from '../utils/markdown'
+import { renderMarkdown } from '../../../../playground/vue/Markdown'
+
+// js-yaml is a dependency of the playground
+const options = {
+  compiler,
+  root: path.resolve(__dirname, '../../../../playground/vue'),
+  markdown: { render: renderMarkdown },
+} as ResolvedOptions
+
+function convert(source: string) {
+  const sfc = markdownToSFC(source, '/src/Doc.md', options)
+  const { descriptor, errors } = compiler.parse(sfc, {
+    filename: '/src/Doc.md',
+  })
+  expect(errors).toEqual([])
+  return { sfc, descriptor }
+}
+
+// 1-based line of `text` in `source`
+function lineOf(source: string, text: string) {
+  return source.slice(0, source.indexOf(text)).split('\n').length
+}
+
+describe('markdown components', () => {
+  test('frontmatter is declared in <script setup>', () => {
+    const source = `---
+title: Hello
+---
+
+## {{ frontmatter.title }}
+`
+    const { descriptor } = convert(source)
+    expect(descriptor.template!.content).toContain(
+      '<h2>{{ frontmatter.title }}</h2>',
+    )
+    expect(descriptor.scriptSetup!.content).toBe(
+      'const frontmatter = {"title":"Hello"};',
+    )
+    expect(descriptor.scriptSetup!.loc.start.line).toBe(1)
+  })
+
+  test('frontmatter is added to an existing <script setup>', () => {
+    const source = `---
+title: Hello
+---
+
+<script setup lang="ts">
+const count = 1
+</script>
+`
+    const { sfc, descriptor } = convert(source)
+    expect(descriptor.scriptSetup!.lang).toBe('ts')
+    expect(descriptor.scriptSetup!.content).toBe(
+      'const frontmatter = {"title":"Hello"};\nconst count = 1\n',
+    )
+    expect(lineOf(sfc, 'const count')).toBe(lineOf(source, 'const count'))
+  })
+
+  test('the code of setup fences keeps its lines', () => {
+    const source = `# Title
+
+\`\`\`ts setup
+import { ref } from 'vue'
+\`\`\`
+
+<button @click="count++">{{ count }}</button>
+
+\`\`\`js setup
+const count = ref(0)
+\`\`\`
+
+<style scoped>
+button { color: red }
+</style>
+`
+    const { sfc, descriptor } = convert(source)
+    expect(descriptor.scriptSetup!.lang).toBe('ts')
+    expect(descriptor.scriptSetup!.loc.start.line).toBe(3)
+    for (const text of ['import { ref }', 'const count', 'button { color']) {
+      expect(lineOf(sfc, text)).toBe(lineOf(source, text))
+    }
+    expect(descriptor.styles[0].loc.start.line).toBe(13)
+    // not rendered
+    expect(descriptor.template!.content).not.toContain('ref(0)')
+    expect(descriptor.template!.content).toContain(
+      '<button @click="count++">{{ count }}</button>',
+    )
+  })
+
+  test('<script setup> follows the lang of <script>', () => {
+    const { descriptor } = convert(`<script lang="ts">
+export const meta = {}
+</script>
+
+\`\`\`js setup
+const count = 1
+\`\`\`
+`)
+    expect(descriptor.script!.lang).toBe('ts')
+    expect(descriptor.scriptSetup!.lang).toBe('ts')
+  })
+
+  test('setup fences are merged into an existing <script setup>', () => {
+    const { descriptor } = convert(`\`\`\`js setup
+import { ref } from 'vue'
+\`\`\`
+
+<script setup>
+const count = ref(0)
+</script>
+`)
+    expect(descriptor.scriptSetup!.content).toBe(
+      "\nimport { ref } from 'vue'\nconst count = ref(0)\n",
+    )
+  })
+
+  test('setup fences around other blocks are merged', () => {
+    const { descriptor } = convert(`\`\`\`js setup
+const a = 1
+\`\`\`
+
+<style>
+p { color: red }
+</style>
+
+\`\`\`js setup
+const b = 2
+\`\`\`
+`)
+    expect(descriptor.scriptSetup!.content).toBe('\nconst a = 1\nconst b = 2\n')
+    expect(descriptor.styles[0].content).toBe('\np { color: red }\n')
+  })
+
+  test('code is not compiled', () => {
+    const { descriptor } = convert(`\`\`\`html
+<p v-if="a">{{ b }}</p>
+\`\`\`
+`)
+    expect(descriptor.template!.content).toContain(
+      '<pre><code v-pre class="language-html">&lt;p v-if="a"&gt;{{ b }}&lt;/p&gt;</code></pre>',
+    )
+  })
+
+  test('frontmatter strings cannot end <script setup>', () => {
+    const { descriptor } = convert(`---
+title: </script><p>
+---
+`)
+    expect(descriptor.scriptSetup!.content).toBe(
+      'const frontmatter = {"title":"\\u003c/script>\\u003cp>"};',
+    )
+    expect(
+      new Function(`${descriptor.scriptSetup!.content}return frontmatter`)(),
+    ).toEqual({ title: '</script><p>' })
+  })
+})
@@ -0,0 +1,118 @@
+import path from 'node:path'
+import { syncBuiltinESMExports } from 'node:module'
+import { pathToFileURL } from 'node:url'
+import workerThreads from 'node:worker_threads'
+import { afterAll, afterEach, describe, expect, test, vi } from 'vitest'
+import * as compiler from 'vue/compiler-sfc'
+import type { PluginContext, RollupLog } from 'rollup'
+import type { ResolvedOptions } from '..'
+import { compileInWorker, createWorkerPool } from '../parallel'
+import {
+  buildFixture,
+  createFixture,
+  getChunkCode,
+  removeFixtures,
+} from './utils'
+
+afterAll(removeFixtures)
+
+const { Worker } = workerThreads
+
+afterEach(() => {
+  workerThreads.Worker = Worker
+  syncBuiltinESMExports()
+})
+
+// the worker file is resolved next to the entry: use the plugin built from
+// the sources by the global setup
+async function loadBuiltPlugin(): Promise<typeof import('..').default> {
+  const entry = path.join(process.env.VITE_PLUGIN_VUE_TEST_DIST!, 'index.mjs')
+  return (await import(/* @vite-ignore */ pathToFileURL(entry).href)).default
+}
+
+// record the messages posted by the workers of the built package
+function spyOnWorkers() {
+  const messages: any[] = []
+  workerThreads.Worker = class extends Worker {
+    constructor(...args: ConstructorParameters<typeof Worker>) {
+      super(...args)
+      this.on('message', (message) => messages.push(message))
+    }
+  }
+  syncBuiltinESMExports()
+  return messages
+}
+
+describe('parallel', () => {
+  test('compiles SFCs in worker threads', async () => {
+    const root = createFixture({
+      'main.js': `import App from './App.vue'\nexport default App\n`,
+      'App.vue': `<script setup>
+import Child from './Child.vue'
+</script>
+
+<template>
+  <Child msg="hello" />
+</template>
+`,
+      'Child.vue': `<script setup>
+defineProps({ msg: String })
+</script>
+
+<template>
+  <p>{{ msg }}</p>
+</template>
+`,
+    })
+    const vuePlugin = await loadBuiltPlugin()
+    const messages = spyOnWorkers()
+    const warnings: RollupLog[] = []
+    const output = await buildFixture(
+      root,
+      { parallel: 2 },
+      { build: { rollupOptions: { onwarn: (w) => void warnings.push(w) } } },
+      vuePlugin,
+    )
+
+    const results = messages.filter((message) => message !== 'ready')
+    expect(results).toHaveLength(2)
+    for (const result of results) {
+      expect(result.error).toBeUndefined()
+      expect(result.script.content).toContain('setup')
+    }
+    expect(warnings).toEqual([])
+    expect(getChunkCode(output)).toContain('"hello"')
+  })
+
+  test('warns once when workers fail to load', async () => {
+    const pool = createWorkerPool(
+      new URL('./missing.mjs', import.meta.url),
+      2,
+      {
+        compilerPath: 'vue/compiler-sfc',
+        options: {} as ResolvedOptions,
+      },
+    )
+    const pluginContext = { warn: vi.fn() } as unknown as PluginContext
+    for (let i = 0; i < 3; i++) {
+      const { descriptor } = compiler.parse(
+        `<script setup>\nconst a = ${i}\n</script>\n`,
+        { filename: `/Comp${i}.vue` },
+      )
+      await compileInWorker(
+        pool,
+        descriptor,
+        {} as ResolvedOptions,
+        pluginContext,
+        false,
+      )
+    }
+    await pool.terminate()
+
+    expect(pool.loadError).toBeDefined()
+    expect(pluginContext.warn).toHaveBeenCalledTimes(1)
+    expect(pluginContext.warn).toHaveBeenCalledWith(
+      expect.stringContaining('failed to start compile workers'),
+    )
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'vitest'
+import * as compiler from 'vue/compiler-sfc'
+import type { ResolvedOptions } from '..'
+import { createDescriptor } from '../utils/descriptorCache'
+
+const root = '/project'
+
+function getId(options: Partial<ResolvedOptions>) {
+  return createDescriptor(`${root}/src/Comp.vue`, `<template></template>\n`, {
+    compiler,
+    root,
+    isProduction: false,
+    ...options,
+  } as ResolvedOptions).descriptor.id
+}
+
+describe('scope ids', () => {
+  test('are prefixed with scopeIdPrefix', () => {
+    expect(getId({ scopeIdPrefix: 'admin-' })).toBe(
+      `admin-${getId({ scopeIdPrefix: '' })}`,
+    )
+    expect(getId({ scopeId: () => 'comp_1', scopeIdPrefix: 'admin-' })).toBe(
+      'admin-comp_1',
+    )
+  })
+
+  test('reject a scopeIdPrefix invalid in selectors', () => {
+    expect(() => getId({ scopeIdPrefix: 'my app' })).toThrow(
+      'Invalid `scopeIdPrefix` option "my app": it must only contain letters, digits, "_" and "-".',
+    )
+    expect(() => getId({ scopeIdPrefix: 'a]' })).toThrow(
+      'Invalid `scopeIdPrefix` option',
+    )
+  })
+
+  test('reject invalid ids returned by scopeId', () => {
+    expect(() => getId({ scopeId: () => 'src/Comp.vue' })).toThrow(
+      'Invalid id "src/Comp.vue" returned by the `scopeId` option for /project/src/Comp.vue',
+    )
+    expect(() => getId({ scopeId: () => '' })).toThrow(
+      'Invalid id "" returned by the `scopeId` option',
+    )
+  })
+})
@@ -0,0 +1,117 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import { pathToFileURL } from 'node:url'
+import { afterAll, describe, expect, test } from 'vitest'
+import { createSSRApp } from 'vue'
+import { renderToString } from 'vue/server-renderer'
+import type { Options } from '..'
+import {
+  buildFixture,
+  createFixture,
+  getChunkCode,
+  removeFixtures,
+} from './utils'
+
+afterAll(removeFixtures)
+
+const files = {
+  'main.js': `export { default, calls } from './Comp.vue'\n`,
+  'Comp.vue': `<script>
+export const calls = []
+
+export default {
+  beforeCreate() {
+    calls.push('beforeCreate')
+  },
+}
+</script>
+
+<script setup>
+calls.push('setup')
+</script>
+
+<template>
+  <p>hello</p>
+</template>
+`,
+}
+
+// build main.js for SSR and import the output, with vue resolved from the
+// fixture like in an app
+async function buildSSR(options: Options, extraFiles = {}) {
+  const root = createFixture({ ...files, ...extraFiles })
+  const vueDir = path.dirname(
+    createRequire(import.meta.url).resolve('vue/package.json'),
+  )
+  fs.mkdirSync(path.join(root, 'node_modules'))
+  fs.symlinkSync(vueDir, path.join(root, 'node_modules/vue'), 'dir')
+
+  const output = await buildFixture(root, options, { build: { ssr: true } })
+  const code = getChunkCode(output)
+  const file = path.join(root, 'main.mjs')
+  fs.writeFileSync(file, code)
+  return {
+    code,
+    mod: await import(/* @vite-ignore */ pathToFileURL(file).href),
+  }
+}
+
+async function render(component: any) {
+  const ssrContext: Record<string, any> = {}
+  const html = await renderToString(createSSRApp(component), ssrContext)
+  return { html, ssrContext }
+}
+
+describe('SSR registration', () => {
+  test("registerMode: 'hook' registers from beforeCreate", async () => {
+    const { code, mod } = await buildSSR({ ssr: { registerMode: 'hook' } })
+    expect(code).toContain('_sfc_main.beforeCreate = function')
+    expect(code).not.toContain('_sfc_main.setup =')
+
+    const { html, ssrContext } = await render(mod.default)
+    expect(html).toBe('<p>hello</p>')
+    expect([...ssrContext.modules]).toEqual(['Comp.vue'])
+    // the hook of the component still runs, after setup
+    expect(mod.calls).toEqual(['setup', 'beforeCreate'])
+    // setup is the compiled one
+    expect(mod.default.setup.toString()).not.toContain('useSSRContext')
+  })
+
+  test('setup is wrapped by default', async () => {
+    const { code, mod } = await buildSSR({})
+    expect(code).toContain('_sfc_main.setup = (props, ctx) =>')
+
+    const { ssrContext } = await render(mod.default)
+    expect([...ssrContext.modules]).toEqual(['Comp.vue'])
+    expect(mod.calls).toEqual(['setup', 'beforeCreate'])
+  })
+
+  test('the registrar gets the async components of TS scripts', async () => {
+    // the main module only imports the script from a sub-module
+    const { mod } = await buildSSR(
+      { ssr: { registrar: './registrar.js' } },
+      {
+        // in the same chunk, which is the only one imported
+        'main.js': `export { default } from './Async.vue'\nexport { default as Lazy } from './Lazy.vue'\n`,
+        'registrar.js': `export default (ssrContext, module) => (ssrContext.infos ||= []).push(module)\n`,
+        'Async.vue': `<script setup lang="ts">
+import { defineAsyncComponent } from 'vue'
+const Lazy = defineAsyncComponent(() => import('./Lazy.vue'))
+const msg: string = 'hello'
+</script>
+
+<template>
+  <p>{{ msg }}</p>
+</template>
+`,
+        'Lazy.vue': `<template>\n  <p>lazy</p>\n</template>\n`,
+      },
+    )
+
+    const { ssrContext } = await render(mod.default)
+    expect(ssrContext.infos).toMatchObject([
+      { file: 'Async.vue', asyncComponents: ['Lazy.vue'] },
+    ])
+  })
+})
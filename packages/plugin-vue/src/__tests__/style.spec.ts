@@ -0,0 +1,60 @@
+import path from 'node:path'
+import { afterAll, describe, expect, test } from 'vitest'
+import type { Plugin } from 'vite'
+import type { SourceMap } from 'rollup'
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping'
+import { buildFixture, createFixture, removeFixtures } from './utils'
+
+afterAll(removeFixtures)
+
+const files = {
+  'main.js': `import Comp from './Comp.vue'\nexport default Comp\n`,
+  'Comp.vue': `<template>
+  <p class="a">hello</p>
+</template>
+
+<style scoped>
+.a {
+  color: red;
+}
+</style>
+`,
+}
+
+// the CSS of the style block after the plugin, with the map of all the
+// transforms back to the SFC
+async function buildStyle(sourcemap: boolean) {
+  let style: { code: string; map: SourceMap } | undefined
+  const capture: Plugin = {
+    name: 'capture-style',
+    transform(code, id) {
+      if (id.includes('?vue&type=style')) {
+        style = { code, map: this.getCombinedSourcemap() }
+      }
+    },
+  }
+  const root = createFixture(files)
+  await buildFixture(root, {}, { plugins: [capture], build: { sourcemap } })
+  return { root, ...style! }
+}
+
+describe('style source maps in build', () => {
+  test('map the compiled CSS back to the SFC', async () => {
+    const { root, code, map } = await buildStyle(true)
+    expect(code).toMatch(/\.a\[data-v-\w+\]/)
+
+    const lines = code.split('\n')
+    const line = lines.findIndex((line) => line.includes('color: red')) + 1
+    expect(
+      originalPositionFor(new TraceMap(map as any), {
+        line,
+        column: lines[line - 1].indexOf('color'),
+      }),
+    ).toMatchObject({ source: path.join(root, 'Comp.vue'), line: 7, column: 2 })
+  })
+
+  test('follow build.sourcemap', async () => {
+    const { map } = await buildStyle(false)
+    expect(map.mappings).toBe('')
+  })
+})
@@ -0,0 +1,152 @@
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import { afterAll, describe, expect, test } from 'vitest'
+import * as compiler from 'vue/compiler-sfc'
+import type { RollupWarning } from 'rollup'
+import type { Plugin } from 'vite'
+import type { Options } from '..'
+import { buildFixture, createFixture, removeFixtures } from './utils'
+
+afterAll(removeFixtures)
+
+// fixtures live outside of the repo, resolve the types of vue from it
+const vueDir = path.dirname(
+  createRequire(import.meta.url).resolve('vue/package.json'),
+)
+
+const files = {
+  'main.js': `import Comp from './Comp.vue'\nexport default Comp\n`,
+  'tsconfig.json': JSON.stringify({
+    compilerOptions: {
+      strict: true,
+      moduleResolution: 'node',
+      paths: { vue: [vueDir] },
+    },
+  }),
+  'Comp.vue': `<script setup lang="ts">
+import { ref } from 'vue'
+const count = ref(0)
+const label: string = count.value
+</script>
+
+<template>
+  <p>{{ label }}</p>
+</template>
+
+<style>
+p { color: red }
+</style>
+`,
+}
+
+async function build(
+  options: Options,
+  sourcemap = false,
+  extraFiles = {},
+  plugins: Plugin[] = [],
+) {
+  const warnings: RollupWarning[] = []
+  const output = buildFixture(
+    createFixture({ ...files, ...extraFiles }),
+    { typeCheck: true, ...options },
+    {
+      plugins,
+      build: {
+        sourcemap,
+        rollupOptions: {
+          onwarn: (warning) => void warnings.push(warning),
+        },
+      },
+    },
+  )
+  return { output, warnings }
+}
+
+describe('typeCheck', () => {
+  test('reports type errors at their location in the SFC', async () => {
+    const { output, warnings } = await build({})
+    await expect(output).rejects.toThrow('Found 1 type error in Vue SFCs.')
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toMatchObject({
+      plugin: 'vite:vue',
+      pluginCode: 'VUE_TYPE_ERROR',
+      message: expect.stringContaining(
+        "TS2322: Type 'number' is not assignable to type 'string'.",
+      ),
+      loc: { line: 4, column: 6 },
+      meta: { vue: { block: 'script', category: 'typeErrors' } },
+    })
+  })
+
+  test('only the checked scripts get a source map', async () => {
+    const sourceMaps: Record<string, boolean> = {}
+    const { output, warnings } = await build({
+      diagnostics: { typeErrors: 'warn' },
+      compiler: {
+        ...compiler,
+        compileScript: (descriptor, options) => {
+          sourceMaps.script = !!options.sourceMap
+          return compiler.compileScript(descriptor, options)
+        },
+        compileStyleAsync: (options) => {
+          sourceMaps.style = !!options.postcssOptions?.map
+          return compiler.compileStyleAsync(options)
+        },
+      },
+    })
+    await output
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toMatchObject({ loc: { line: 4, column: 6 } })
+    expect(sourceMaps).toEqual({ script: true, style: false })
+  })
+
+  test('diagnostics mapped to another file with the same name are ignored', async () => {
+    const { output, warnings } = await build({
+      compiler: {
+        ...compiler,
+        compileScript: (descriptor, options) => {
+          const script = compiler.compileScript(descriptor, options)
+          const dir = path.dirname(descriptor.filename)
+          script.map!.sources = [path.join(dir, 'other/Comp.vue')]
+          return script
+        },
+      },
+    })
+    await output
+    expect(warnings).toEqual([])
+  })
+
+  test('each plugin instance checks the components of its build', async () => {
+    // the build with a type error ends after the other one
+    let otherBuilt: () => void
+    const otherBuild = new Promise<void>((resolve) => (otherBuilt = resolve))
+    const failing = await build(
+      {},
+      false,
+      {
+        'main.js': `import Comp from './Comp.vue'\nimport './other.js'\nexport default Comp\n`,
+        'other.js': `export {}\n`,
+      },
+      [
+        {
+          name: 'wait-for-other-build',
+          async transform(_, id) {
+            if (id.endsWith('other.js')) await otherBuild
+          },
+        },
+      ],
+    )
+    const passing = await build({}, false, {
+      'Comp.vue': `<script setup lang="ts">\nconst label: string = 'ok'\n</script>\n`,
+    })
+    await passing.output.finally(() => otherBuilt())
+
+    expect(passing.warnings).toEqual([])
+    await expect(failing.output).rejects.toThrow(
+      'Found 1 type error in Vue SFCs.',
+    )
+    expect(failing.warnings).toHaveLength(1)
+  })
+})
@@ -0,0 +1,276 @@
+import { afterAll, afterEach, describe, expect, test, vi } from 'vitest'
+import * as compiler from 'vue/compiler-sfc'
+import type { PluginContext, RollupError, RollupWarning } from 'rollup'
+import type { Options, ResolvedOptions } from '..'
+import { checkUnusedProps } from '../unusedProps'
+import { reportScriptWarning } from '../utils/error'
+import { buildFixture, createFixture, removeFixtures } from './utils'
+
+afterAll(removeFixtures)
+
+function createContext() {
+  const warnings: RollupError[] = []
+  const errors: RollupError[] = []
+  const pluginContext = {
+    warn: vi.fn((warning) => void warnings.push(warning)),
+    error: vi.fn((error) => void errors.push(error)),
+  } as unknown as PluginContext
+  return { pluginContext, warnings, errors }
+}
+
+function check(
+  source: string,
+  diagnostics: Options['diagnostics'] = { unusedProps: 'warn' },
+) {
+  const { descriptor } = compiler.parse(source, { filename: '/src/Comp.vue' })
+  const script = compiler.compileScript(descriptor, { id: 'x' })
+  const { pluginContext, warnings, errors } = createContext()
+  checkUnusedProps(
+    descriptor,
+    script,
+    { compiler, diagnostics } as ResolvedOptions,
+    pluginContext,
+  )
+  return { warnings, errors }
+}
+
+function unusedProps(source: string): string[] {
+  return check(source).warnings.map(
+    (warning) => warning.message.match(/"(\w+)"/)![1],
+  )
+}
+
+describe('unused props', () => {
+  test('reports props that are never used', () => {
+    expect(
+      unusedProps(`<script setup>
+const props = defineProps(['used', 'unused'])
+</script>
+
+<template>
+  <p :title="used">{{ props.used }}</p>
+</template>
+`),
+    ).toEqual(['unused'])
+  })
+
+  test('locates the declaration of the prop', () => {
+    const source = `<script setup lang="ts">
+defineProps<{ msg: string }>()
+</script>
+
+<template>
+  <p>hello</p>
+</template>
+`
+    const [warning] = check(source).warnings
+    expect(warning).toMatchObject({
+      pluginCode: 'VUE_UNUSED_PROP',
+      meta: {
+        vue: {
+          block: 'script',
+          start: { line: 2, offset: source.indexOf('msg') },
+        },
+      },
+    })
+  })
+
+  test('destructured props', () => {
+    expect(
+      unusedProps(`<script setup>
+import { computed } from 'vue'
+const { a, b: renamed, c = 1, d } = defineProps(['a', 'b', 'c', 'd'])
+const double = computed(() => renamed * 2)
+</script>
+
+<template>
+  <p>{{ double }} {{ c }}</p>
+</template>
+`),
+    ).toEqual(['a', 'd'])
+  })
+
+  test('props.x in the script', () => {
+    expect(
+      unusedProps(`<script setup>
+const props = defineProps(['a', 'b', 'c'])
+console.log(props.a, props?.b, props['c'])
+</script>
+`),
+    ).toEqual([])
+    expect(
+      unusedProps(`<script setup>
+const props = defineProps(['a', 'b'])
+console.log(props.a, props.bb)
+</script>
+`),
+    ).toEqual(['b'])
+  })
+
+  test('$props in the template', () => {
+    expect(
+      unusedProps(`<script setup>
+defineProps(['a'])
+</script>
+
+<template>
+  <Child v-bind="$props" />
+</template>
+`),
+    ).toEqual([])
+  })
+
+  test('props object escaping', () => {
+    expect(
+      unusedProps(`<script setup>
+import { toRefs } from 'vue'
+const props = defineProps(['a'])
+const refs = toRefs(props)
+</script>
+`),
+    ).toEqual([])
+    expect(
+      unusedProps(`<script setup>
+const props = defineProps(['a'])
+</script>
+
+<template>
+  <Child v-bind="props" />
+</template>
+`),
+    ).toEqual([])
+  })
+
+  test('same name used for something else', () => {
+    expect(
+      unusedProps(`<script setup>
+const props = defineProps(['title'])
+const item = { title: 'x' }
+console.log(item.title)
+</script>
+`),
+    ).toEqual(['title'])
+  })
+})
+
+describe('diagnostics option', () => {
+  const source = `<script setup>
+defineProps(['unused'])
+</script>
+`
+
+  test('unused props are off by default', () => {
+    const { warnings, errors } = check(source, {})
+    expect(warnings).toEqual([])
+    expect(errors).toEqual([])
+  })
+
+  test('off / warn / error', () => {
+    expect(check(source, { unusedProps: 'off' })).toMatchObject({
+      warnings: [],
+      errors: [],
+    })
+
+    const warned = check(source, { unusedProps: 'warn' })
+    expect(warned.errors).toEqual([])
+    expect(warned.warnings).toHaveLength(1)
+    expect(warned.warnings[0].meta!.vue.category).toBe('unusedProps')
+
+    const failed = check(source, { unusedProps: 'error' })
+    expect(failed.warnings).toEqual([])
+    expect(failed.errors).toHaveLength(1)
+    expect(failed.errors[0]).toMatchObject({
+      pluginCode: 'VUE_UNUSED_PROP',
+      meta: { vue: { category: 'unusedProps' } },
+    })
+  })
+
+  test('categories of script warnings', () => {
+    const { descriptor } = compiler.parse(source, {
+      filename: '/src/Comp.vue',
+    })
+    const report = (message: string, diagnostics: Options['diagnostics']) => {
+      const { pluginContext, warnings, errors } = createContext()
+      reportScriptWarning(pluginContext, descriptor, message, {
+        compiler,
+        diagnostics,
+      } as ResolvedOptions)
+      return { warnings, errors }
+    }
+    const deprecated =
+      '`defineProps` is a compiler macro and no longer needs to be imported.'
+    const experimental = 'defineModel() is an experimental feature.'
+
+    expect(report(deprecated, {}).warnings[0].meta!.vue.category).toBe(
+      'deprecations',
+    )
+    expect(report(deprecated, { deprecations: 'off' }).warnings).toEqual([])
+    expect(report(deprecated, { deprecations: 'error' }).errors).toHaveLength(1)
+    expect(
+      report(experimental, { experimentalFeatures: 'off' }).warnings,
+    ).toEqual([])
+    expect(
+      report('something else', { experimentalFeatures: 'off' }).warnings[0]
+        .meta!.vue.category,
+    ).toBe('scriptWarnings')
+  })
+})
+
+describe('deprecated and experimental features in builds', () => {
+  // like `vite build`: compiler-sfc doesn't log its warnings in production
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  const files = {
+    'main.js': `export { default as A } from './A.vue'\nexport { default as B } from './B.vue'\n`,
+    'A.vue': `<script setup>
+import { defineProps } from 'vue'
+defineProps(['msg'])
+</script>
+`,
+    'B.vue': `<script setup>
+import { defineProps } from 'vue'
+const { msg } = defineProps(['msg'])
+const model = defineModel()
+</script>
+`,
+  }
+
+  async function build(diagnostics: Options['diagnostics']) {
+    vi.stubEnv('NODE_ENV', 'production')
+    const warnings: RollupWarning[] = []
+    const output = buildFixture(
+      createFixture(files),
+      { diagnostics, script: { defineModel: true, propsDestructure: true } },
+      {
+        build: {
+          rollupOptions: { onwarn: (warning) => void warnings.push(warning) },
+        },
+      },
+    )
+    return { output, warnings }
+  }
+
+  test('are reported for every component', async () => {
+    const { output, warnings } = await build({})
+    await output
+    const reported = warnings.map((warning) => [
+      warning.id!.replace(/.*\//, ''),
+      warning.meta!.vue.category,
+    ])
+    expect(reported.sort()).toEqual([
+      ['A.vue', 'deprecations'],
+      ['B.vue', 'deprecations'],
+      ['B.vue', 'experimentalFeatures'],
+      ['B.vue', 'experimentalFeatures'],
+    ])
+  })
+
+  test('fail the build with the error severity', async () => {
+    const { output } = await build({ deprecations: 'error' })
+    await expect(output).rejects.toThrow(
+      '`defineProps` is a compiler macro and no longer needs to be imported.',
+    )
+  })
+})
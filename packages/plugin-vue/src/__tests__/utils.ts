@@ -0,0 +1,116 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { build, mergeConfig } from 'vite'
+import type { InlineConfig, Plugin } from 'vite'
+import type { RollupOutput } from 'rollup'
+import * as sfc from 'vue/compiler-sfc'
+import vuePlugin from '..'
+import type { Options } from '..'
+
+// 单元测试的公共工具：在临时目录中创建项目，用 Vite 的 build() 构建
+
+const fixtures: string[] = []
+
+export function createFixture(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-vue-'))
+  fixtures.push(root)
+  writeFiles(root, files)
+  return root
+}
+
+export function writeFiles(root: string, files: Record<string, string>): void {
+  for (const name in files) {
+    const file = path.join(root, name)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, files[name])
+  }
+}
+
+export function removeFixtures(): void {
+  for (const root of fixtures.splice(0)) {
+    fs.rmSync(root, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Build `main.js` of a fixture, with `vue` kept external. `plugin` can be the
+ * built package instead of the sources.
+ */
+export async function buildFixture(
+  root: string,
+  options: Options = {},
+  config: InlineConfig = {},
+  plugin: (options: Options) => Plugin = vuePlugin,
+): Promise<RollupOutput> {
+  const output = await build(
+    mergeConfig(
+      {
+        root,
+        configFile: false,
+        logLevel: 'silent',
+        plugins: [plugin(options)],
+        build: {
+          write: false,
+          minify: false,
+          rollupOptions: {
+            input: path.join(root, 'main.js'),
+            external: ['vue', /^vue\//],
+            // keep the exports of main.js
+            preserveEntrySignatures: 'strict',
+          },
+        },
+      },
+      config,
+    ),
+  )
+  return (Array.isArray(output) ? output[0] : output) as RollupOutput
+}
+
+export function getChunkCode(output: RollupOutput): string {
+  return output.output
+    .map((file) => (file.type === 'chunk' ? file.code : ''))
+    .join('\n')
+}
+
+export function getAsset(
+  output: RollupOutput,
+  fileName: string,
+): string | undefined {
+  const asset = output.output.find(
+    (file) => file.type === 'asset' && file.fileName === fileName,
+  )
+  return asset?.type === 'asset' ? String(asset.source) : undefined
+}
+
+/**
+ * compiler-sfc counting its compile calls. Each instance returns new
+ * descriptors, like after a restart: compiler-sfc caches descriptors by
+ * source, and the plugin caches compiled scripts by descriptor.
+ */
+export function createCountingCompiler(): {
+  compiler: typeof sfc
+  calls: { script: number; template: number; style: number }
+} {
+  const calls = { script: 0, template: 0, style: 0 }
+  const compiler: typeof sfc = {
+    ...sfc,
+    parse: (source, options) => {
+      const result = sfc.parse(source, options)
+      return { ...result, descriptor: { ...result.descriptor } }
+    },
+    compileScript: (...args) => {
+      calls.script++
+      return sfc.compileScript(...args)
+    },
+    compileTemplate: (...args) => {
+      calls.template++
+      return sfc.compileTemplate(...args)
+    },
+    compileStyleAsync: (...args) => {
+      calls.style++
+      return sfc.compileStyleAsync(...args)
+    },
+  }
+  return { compiler, calls }
+}
@@ -0,0 +1,260 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { createHash } from 'node:crypto'
+import _debug from 'debug'
+import type { PluginContext, RollupLog } from 'rollup'
+import type { SFCScriptBlock } from 'vue/compiler-sfc'
+import { version } from '../package.json'
+import type { ResolvedOptions } from '.'
+
+// 持久化（磁盘）编译缓存：
+// 以「文件内容 hash + compiler-sfc 版本 + 插件版本 + 解析后的配置」作为 key，
+// 在冷启动时跳过未改动组件的 compileScript / compileTemplate / compileStyleAsync。
+
+const debug = _debug('vite:vue:cache')
+
+export interface CacheOptions {
+  /**
+   * Directory to store cache entries in.
+   *
+   * @default `${config.cacheDir}/vue`
+   */
+  dir?: string
+  /**
+   * Max total size of the cache directory in bytes. Least recently used
+   * entries are removed when the limit is exceeded.
+   *
+   * @default 100 * 1024 * 1024
+   */
+  maxSize?: number
+}
+
+export interface CacheEntry<T = any> {
+  result: T
+  /**
+   * Hashes of files (e.g. imported types) the result depends on. The entry is
+   * discarded when any of them changes.
+   */
+  deps?: Record<string, string>
+  /**
+   * Warnings emitted while producing the result, replayed on cache hits.
+   */
+  warnings?: RollupLog[]
+  /**
+   * The resolved script of the component, needed by its sub-modules.
+   */
+  script?: SFCScriptBlock | null
+}
+
+const DEFAULT_MAX_SIZE = 100 * 1024 * 1024
+
+// total size of each cache directory, lazily computed on first write
+const dirSizes = new Map<string, number>()
+const fingerprints = new WeakMap<ResolvedOptions, string>()
+
+export function isCacheEnabled(options: ResolvedOptions): boolean {
+  return !!options.cache
+}
+
+function resolveCacheDir(options: ResolvedOptions): string {
+  const dir = typeof options.cache === 'object' ? options.cache.dir : undefined
+  return path.resolve(options.root, dir || path.join(options.cacheDir, 'vue'))
+}
+
+/**
+ * Serialize everything in the resolved options that may affect compile
+ * output. Non-serializable values (compiler instances, the dev server) are
+ * replaced by the parts of them that matter.
+ */
+function getOptionsFingerprint(options: ResolvedOptions): string {
+  let fingerprint = fingerprints.get(options)
+  if (fingerprint) {
+    return fingerprint
+  }
+  const {
+    compiler,
+    devServer,
+    cache,
+    cacheDir,
+    parallel,
+    workerPool,
+    manifest,
+    ...rest
+  } = options
+  fingerprint = JSON.stringify(
+    {
+      ...rest,
+      pluginVersion: version,
+      compilerVersion: compiler?.version,
+      devServer: devServer && {
+        base: devServer.config.base,
+        origin: devServer.config.server.origin,
+        hmr: devServer.config.server.hmr !== false,
+      },
+    },
+    (key, value) => {
+      if (typeof value === 'function') return value.toString()
+      if (value instanceof RegExp) return value.toString()
+      // custom compiler / fs implementations can't be serialized
+      if ((key === 'compiler' || key === 'fs') && value) return true
+      return value
+    },
+  )
+  fingerprints.set(options, fingerprint)
+  return fingerprint
+}
+
+function hash(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+export function createCacheKey(
+  kind: 'main' | 'template' | 'style',
+  filename: string,
+  source: string,
+  options: ResolvedOptions,
+  extra: unknown = null,
+): string {
+  return hash(
+    [
+      kind,
+      path.relative(options.root, filename),
+      hash(source),
+      getOptionsFingerprint(options),
+      JSON.stringify(extra),
+    ].join('\0'),
+  )
+}
+
+function getFileHash(file: string): string | undefined {
+  try {
+    return hash(fs.readFileSync(file, 'utf-8'))
+  } catch (e) {}
+}
+
+export function hashDeps(
+  deps: string[] | undefined,
+): Record<string, string> | undefined {
+  if (!deps?.length) return
+  const hashes: Record<string, string> = {}
+  for (const dep of deps) {
+    const fileHash = getFileHash(dep)
+    if (fileHash) hashes[dep] = fileHash
+  }
+  return hashes
+}
+
+export function readCache<T>(
+  key: string,
+  options: ResolvedOptions,
+): CacheEntry<T> | undefined {
+  const file = path.join(resolveCacheDir(options), `${key}.json`)
+  let entry: CacheEntry<T>
+  try {
+    entry = JSON.parse(fs.readFileSync(file, 'utf-8'))
+  } catch (e) {
+    return
+  }
+  if (entry.deps) {
+    for (const dep in entry.deps) {
+      if (getFileHash(dep) !== entry.deps[dep]) {
+        debug(`stale dependency ${dep}, dropping ${key}`)
+        return
+      }
+    }
+  }
+  try {
+    // bump mtime so that pruning evicts the least recently used entries
+    const now = new Date()
+    fs.utimesSync(file, now, now)
+  } catch (e) {}
+  return entry
+}
+
+export function writeCache<T>(
+  key: string,
+  entry: CacheEntry<T>,
+  options: ResolvedOptions,
+): void {
+  const dir = resolveCacheDir(options)
+  const file = path.join(dir, `${key}.json`)
+  try {
+    const content = JSON.stringify(entry)
+    fs.mkdirSync(dir, { recursive: true })
+    const prevSize = dirSizes.get(dir) ?? getDirSize(dir)
+    // overwriting an entry (e.g. a stale one) replaces its size
+    let prevFileSize = 0
+    try {
+      prevFileSize = fs.statSync(file).size
+    } catch (e) {}
+    fs.writeFileSync(file, content)
+    const size = prevSize - prevFileSize + Buffer.byteLength(content)
+    dirSizes.set(dir, size)
+    const maxSize =
+      (typeof options.cache === 'object' && options.cache.maxSize) ||
+      DEFAULT_MAX_SIZE
+    if (size > maxSize) {
+      pruneCache(dir, maxSize)
+    }
+  } catch (e: any) {
+    debug(`failed to write ${file}: ${e.message}`)
+  }
+}
+
+function getDirSize(dir: string): number {
+  let size = 0
+  for (const name of fs.readdirSync(dir)) {
+    size += fs.statSync(path.join(dir, name)).size
+  }
+  return size
+}
+
+// evict least recently used entries until the directory takes up at most
+// 80% of the limit, so we don't prune again on every following write.
+function pruneCache(dir: string, maxSize: number) {
+  const entries = fs
+    .readdirSync(dir)
+    .map((name) => {
+      const file = path.join(dir, name)
+      const { size, mtimeMs } = fs.statSync(file)
+      return { file, size, mtimeMs }
+    })
+    .sort((a, b) => a.mtimeMs - b.mtimeMs)
+  let size = entries.reduce((total, entry) => total + entry.size, 0)
+  const target = maxSize * 0.8
+  for (const entry of entries) {
+    if (size <= target) break
+    fs.unlinkSync(entry.file)
+    size -= entry.size
+  }
+  debug(`pruned ${dir} to ${size} bytes`)
+  dirSizes.set(dir, size)
+}
+
+/**
+ * Wrap a plugin context so that warnings emitted through it are recorded
+ * (and still forwarded), allowing them to be stored alongside cached results.
+ */
+export function captureWarnings<T extends PluginContext>(
+  pluginContext: T,
+): [context: T, warnings: RollupLog[]] {
+  const warnings: RollupLog[] = []
+  const context = Object.create(pluginContext, {
+    warn: {
+      value(warning: RollupLog | string, pos?: any) {
+        warnings.push(
+          typeof warning === 'string' ? { message: warning } : warning,
+        )
+        return (pluginContext.warn as any)(warning, pos)
+      },
+    },
+  })
+  return [context, warnings]
+}
+
+export function replayWarnings(
+  pluginContext: PluginContext,
+  warnings: RollupLog[] | undefined,
+): void {
+  warnings?.forEach((warning) => pluginContext.warn(warning))
+}
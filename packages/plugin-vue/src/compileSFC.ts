@@ -0,0 +1,315 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { SFCDescriptor, SFCStyleCompileOptions } from 'vue/compiler-sfc'
+import type { RollupError, RollupLog, TransformPluginContext } from 'rollup'
+import { transformWithEsbuild } from 'vite'
+import { resolveCompiler } from './compiler'
+import { getDescriptor, preserveDescriptor } from './utils/descriptorCache'
+import { transformMain } from './main'
+import { canInlineMain, getResolvedScript, isUseInlineTemplate } from './script'
+import { transformTemplateAsModule } from './template'
+import { getTemplatePreprocessor } from './preprocessors'
+import { resolveMarkdownFilter } from './markdown'
+import { transformStyle } from './style'
+import type { Options, ResolvedOptions } from '.'
+
+// 在 Vite 之外编译单个 SFC（测试运行器、组件预览工具等场景），
+// 复用插件本身的 transformMain / transformTemplateAsModule / transformStyle，
+// 并用一个最小化的插件上下文替代 Rollup 的 TransformPluginContext。
+
+export interface CompileSFCOptions
+  extends Omit<Options, 'include' | 'exclude' | 'cache' | 'parallel' | 'ssr'> {
+  /**
+   * Project root, used to compute component ids and relative paths.
+   *
+   * @default process.cwd()
+   */
+  root?: string
+  /**
+   * Generate code for server-side rendering.
+   *
+   * @default false
+   */
+  ssr?: boolean
+  /**
+   * @default true
+   */
+  sourceMap?: boolean
+  /**
+   * Compile the component as a custom element.
+   *
+   * @default false
+   */
+  asCustomElement?: boolean
+}
+
+export interface CompiledBlock {
+  code: string
+  map: any
+}
+
+export interface CompiledStyle extends CompiledBlock {
+  index: number
+  lang: string
+  scoped: boolean
+  module: string | boolean
+}
+
+export interface CompileSFCResult {
+  /**
+   * The main module: the component definition with the render function
+   * inlined when possible. It imports the other results through
+   * `<filename>?vue&type=...` requests, just like in a Vite build.
+   */
+  code: string
+  map: any
+  descriptor: SFCDescriptor | null
+  /**
+   * The script module, only present when the script is not inlined into the
+   * main module (e.g. when using `lang="ts"`). TypeScript is transpiled.
+   */
+  script: CompiledBlock | null
+  /**
+   * The template module, only present when the template is not inlined into
+   * the main module (e.g. when using `lang="pug"` or `src`).
+   */
+  template: CompiledBlock | null
+  /**
+   * Compiled `<style>` blocks, in source order. Pre-processors are run by
+   * compiler-sfc, CSS modules class names are not generated.
+   */
+  styles: CompiledStyle[]
+  errors: RollupError[]
+  warnings: RollupLog[]
+}
+
+const preprocessLangs = ['less', 'sass', 'scss', 'styl', 'stylus']
+
+/**
+ * Compile a Vue SFC to JavaScript and CSS the same way the plugin does,
+ * without a running Vite server.
+ */
+export async function compileSFC(
+  source: string,
+  filename: string,
+  {
+    ssr = false,
+    asCustomElement = false,
+    ...rawOptions
+  }: CompileSFCOptions = {},
+): Promise<CompileSFCResult> {
+  const root = rawOptions.root || process.cwd()
+  const isProduction =
+    rawOptions.isProduction ?? process.env.NODE_ENV === 'production'
+  const options: ResolvedOptions = {
+    reactivityTransform: false,
+    ...rawOptions,
+    isProduction,
+    compiler: rawOptions.compiler || resolveCompiler(root),
+    root,
+    cacheDir: 'node_modules/.vite',
+    sourceMap: rawOptions.sourceMap ?? true,
+    cssDevSourcemap: false,
+    devToolsEnabled: !isProduction,
+    markdownFilter: resolveMarkdownFilter(rawOptions.markdown),
+  }
+  filename = path.resolve(root, filename)
+
+  const errors: RollupError[] = []
+  const warnings: RollupLog[] = []
+  const pluginContext = createPluginContext(errors, warnings)
+
+  const result: CompileSFCResult = {
+    code: '',
+    map: null,
+    descriptor: null,
+    script: null,
+    template: null,
+    styles: [],
+    errors,
+    warnings,
+  }
+
+  const restoreDescriptor = preserveDescriptor(filename)
+  try {
+    const main = await transformMain(
+      source,
+      filename,
+      options,
+      pluginContext,
+      ssr,
+      asCustomElement,
+    )
+    const descriptor = getDescriptor(filename, options, false)!
+    result.descriptor = descriptor
+    if (!main) {
+      return result
+    }
+    result.code = main.code
+    result.map = main.map
+
+    const resolvedScript = getResolvedScript(descriptor, ssr)
+    if (
+      resolvedScript &&
+      !resolvedScript.src &&
+      !canInlineMain(descriptor, options)
+    ) {
+      result.script = { code: resolvedScript.content, map: resolvedScript.map }
+      const lang = resolvedScript.lang
+      if (lang === 'ts' || lang === 'tsx') {
+        result.script = await transformWithEsbuild(
+          resolvedScript.content,
+          filename,
+          {
+            loader: lang,
+            jsx: 'preserve',
+            target: 'esnext',
+            sourcemap: options.sourceMap,
+          },
+          resolvedScript.map,
+        )
+      }
+    }
+
+    // same conditions as the template being imported by the main module
+    const { template } = descriptor
+    if (
+      template &&
+      !isUseInlineTemplate(descriptor, true, options) &&
+      (template.src ||
+        (template.lang &&
+          template.lang !== 'html' &&
+          !getTemplatePreprocessor(template.lang, options)))
+    ) {
+      result.template = await transformTemplateAsModule(
+        template.src ? readSrc(template.src, filename) : template.content,
+        descriptor,
+        options,
+        pluginContext,
+        ssr,
+      )
+    }
+
+    for (let i = 0; i < descriptor.styles.length; i++) {
+      const style = descriptor.styles[i]
+      const lang = style.lang || 'css'
+      const styleFilename = style.src
+        ? path.resolve(path.dirname(filename), style.src)
+        : filename
+      const content = style.src ? readSrc(style.src, filename) : style.content
+      const { code, map } = await transformStyle(
+        content,
+        descriptor,
+        i,
+        options,
+        pluginContext,
+        styleFilename,
+        preprocessLangs.includes(lang)
+          ? (lang as SFCStyleCompileOptions['preprocessLang'])
+          : undefined,
+        // the maps of the pre-processor and PostCSS are chained onto the map
+        // of the content back to its file
+        style.src
+          ? JSON.parse(
+              new options.compiler.MagicString(content)
+                .generateMap({
+                  source: styleFilename,
+                  hires: true,
+                  includeContent: true,
+                })
+                .toString(),
+            )
+          : style.map,
+      )
+      result.styles.push({
+        index: i,
+        lang,
+        scoped: !!style.scoped,
+        module: style.module ?? false,
+        code,
+        map,
+      })
+    }
+  } catch (e: any) {
+    // errors reported through the plugin context are already recorded
+    if (!errors.includes(e)) {
+      errors.push({ id: filename, plugin: 'vue', ...e, message: e.message })
+    }
+  } finally {
+    // the descriptor cache is only useful to the sub-module requests of a
+    // running Vite server, which may also have compiled this file
+    restoreDescriptor()
+  }
+
+  return result
+}
+
+/**
+ * A stand-in for Rollup's plugin context: errors are thrown (and recorded),
+ * warnings are recorded, and relative imports are resolved against the
+ * importer. There is no module graph, the other methods are no-ops.
+ */
+function createPluginContext(
+  errors: RollupError[],
+  warnings: RollupLog[],
+): TransformPluginContext {
+  const noop = () => {}
+  const toLog = (log: RollupLog | string | (() => RollupLog | string)) => {
+    const value = typeof log === 'function' ? log() : log
+    return typeof value === 'string' ? { message: value } : value
+  }
+  return {
+    error(error: RollupError | string): never {
+      const rollupError = typeof error === 'string' ? { message: error } : error
+      errors.push(rollupError)
+      throw rollupError
+    },
+    warn(warning) {
+      warnings.push(toLog(warning))
+    },
+    async resolve(source, importer) {
+      if (!importer || !/^\.\.?\//.test(source)) {
+        return null
+      }
+      return {
+        id: path.resolve(path.dirname(importer), source),
+        external: false,
+        assertions: {},
+        meta: {},
+        moduleSideEffects: true,
+        resolvedBy: 'vue',
+        syntheticNamedExports: false,
+      }
+    },
+    addWatchFile: noop,
+    emitFile: () => '',
+    getCombinedSourcemap: () => {
+      throw new Error('getCombinedSourcemap() is not supported by compileSFC')
+    },
+    getFileName: () => '',
+    getModuleIds: () => [][Symbol.iterator](),
+    getModuleInfo: () => null,
+    getWatchFiles: () => [],
+    load: () => {
+      throw new Error('load() is not supported by compileSFC')
+    },
+    parse: () => {
+      throw new Error('parse() is not supported by compileSFC')
+    },
+    setAssetSource: noop,
+    cache: {
+      delete: () => false,
+      get: <T>() => undefined as T,
+      has: () => false,
+      set: noop,
+    },
+    debug: noop,
+    info: noop,
+    meta: { rollupVersion: '', watchMode: false },
+    moduleIds: [][Symbol.iterator](),
+  }
+}
+
+function readSrc(src: string, importer: string): string {
+  return fs.readFileSync(path.resolve(path.dirname(importer), src), 'utf-8')
+}
@@ -45,9 +45,26 @@ function tryResolveCompiler(root?: string) {
   }
 }
 
+// 与 resolveCompiler 相同的查找顺序，但只返回 vue/compiler-sfc 的文件路径，
+// 供 worker 线程加载同一个编译器实例。
+export function resolveCompilerPath(root: string): string | undefined {
+  return tryResolveCompilerPath(root) || tryResolveCompilerPath()
+}
+
+function tryResolveCompilerPath(root?: string) {
+  const vueMeta = tryRequire('vue/package.json', root)
+  if (vueMeta && vueMeta.version.split('.')[0] >= 3) {
+    try {
+      return root
+        ? _require.resolve('vue/compiler-sfc', { paths: [root] })
+        : _require.resolve('vue/compiler-sfc')
+    } catch (e) {}
+  }
+}
+
 // 这行创建了一个兼容 CommonJS 风格的 require()，可以在 ESM 模块里用。
 const _require = createRequire(import.meta.url)
-function tryRequire(id: string, from?: string) {
+export function tryRequire(id: string, from?: string) {
   try {
     // 如果指定了 from（项目根路径），就从该路径优先解析模块
     // 否则直接 require(id)
@@ -0,0 +1,118 @@
+import type { SFCDescriptor, SFCScriptBlock } from 'vue/compiler-sfc'
+import { canInlineMain } from './script'
+import type { ResolvedOptions } from '.'
+
+// 开发环境下 <style> 中 v-bind() 的 CSS 变量注入。
+// compiler-sfc 把 useCssVars() 的 getter 生成在 setup() 内部，直接引用 setup 的局部变量，
+// 修改 v-bind() 后只能重新执行 setup，也就是重载组件、丢失状态。
+// 这里改为由主模块注入：getter 通过组件实例代理（_ctx）读取绑定，并保存在
+// import.meta.hot.data 的 shallowRef 中。热更新时主模块重新执行并替换 getter，
+// 已挂载的组件实例随之更新 CSS 变量，组件状态得以保留。
+// 所有带 <style> 块的组件都会注入（包装 setup），即使还没有使用 v-bind()，这样添加第一个
+// v-bind() 也只需重新渲染。没有 v-bind() 时 useCssVars() 不会设置任何变量，只有一次调用的开销。
+
+const globals = new Set(
+  (
+    'Infinity,undefined,NaN,isFinite,isNaN,parseFloat,parseInt,decodeURI,' +
+    'decodeURIComponent,encodeURI,encodeURIComponent,Math,Number,Date,Array,' +
+    'Object,Boolean,String,RegExp,Map,Set,JSON,Intl,BigInt,console'
+  ).split(','),
+)
+
+// same as compiler-sfc outside of production
+const escapeSymbolsRE = /[ !"#$%&'()*+,./:;<=>?@[\\\]^`{|}~]/g
+
+/**
+ * Whether the CSS vars of the component are injected by the main module
+ * instead of compiler-sfc, so that they can be updated in place during HMR.
+ */
+export function canPatchCssVars(
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+  ssr: boolean,
+): boolean {
+  return (
+    !!options.devServer &&
+    options.devServer.config.server.hmr !== false &&
+    !ssr &&
+    !options.isProduction &&
+    // also without CSS vars, so that the first `v-bind()` can be added in
+    // place. Adding the first <style> block reloads the component anyway.
+    descriptor.styles.length > 0 &&
+    // imports not exposed to the template are referenced directly, which
+    // requires the script to be part of the main module
+    (!descriptor.scriptSetup || canInlineMain(descriptor, options))
+  )
+}
+
+export function genCssVarsCode(
+  descriptor: SFCDescriptor,
+  resolvedScript: SFCScriptBlock | null | undefined,
+  options: ResolvedOptions,
+): string {
+  const imports = descriptor.scriptSetup ? resolvedScript?.imports : undefined
+  const lang = descriptor.scriptSetup?.lang || descriptor.script?.lang
+  const isTS = !!lang && /tsx?$/.test(lang)
+  const vars = descriptor.cssVars.map(
+    (raw) =>
+      `"${genVarName(descriptor.id, raw)}": ` +
+      `(${rewriteExpression(raw, imports, isTS, options)})`,
+  )
+  return [
+    `import { useCssVars as __vite_useCssVars, shallowRef as __vite_shallowRef, unref as __vite_unref } from 'vue'`,
+    // shared by all versions of the module, replaced on every update
+    `const __vite_cssVars = import.meta.hot.data.cssVars || (import.meta.hot.data.cssVars = __vite_shallowRef())`,
+    `__vite_cssVars.value = (_ctx) => ({${vars.join(', ')}})`,
+    `const __vite_cssVarsSetup = _sfc_main.setup`,
+    `_sfc_main.setup = (props, ctx) => {`,
+    `  __vite_useCssVars((_ctx) => __vite_cssVars.value(_ctx))`,
+    `  return __vite_cssVarsSetup ? __vite_cssVarsSetup(props, ctx) : undefined`,
+    `}`,
+  ].join('\n')
+}
+
+function genVarName(id: string, raw: string): string {
+  return `${id}-${raw.replace(escapeSymbolsRE, (s) => `\\${s}`)}`
+}
+
+// prefix the identifiers of a `v-bind()` expression so that they are read
+// from the component instance, like compiler-sfc does for a normal <script>.
+function rewriteExpression(
+  exp: string,
+  imports: SFCScriptBlock['imports'],
+  isTS: boolean,
+  options: ResolvedOptions,
+): string {
+  const source = `(${exp})`
+  let ast: any
+  try {
+    ast = options.compiler.babelParse(source, {
+      plugins: isTS ? ['typescript'] : [],
+    }).program
+  } catch (e) {
+    // leave the error to the runtime, as a syntax error in the expression
+    return exp
+  }
+
+  const s = new options.compiler.MagicString(source)
+  options.compiler.walkIdentifiers(ast, (id, parent) => {
+    const name = id.name
+    if (globals.has(name)) {
+      return
+    }
+    // `<script setup lang="ts">` doesn't expose imports unused in the
+    // template, but they are in scope of the main module
+    const code =
+      imports?.[name] && !imports[name].isUsedInTemplate
+        ? `__vite_unref(${name})`
+        : `_ctx.${name}`
+    s.overwrite(
+      id.start!,
+      id.end!,
+      parent.type === 'ObjectProperty' && parent.shorthand
+        ? `${name}: ${code}`
+        : code,
+    )
+  })
+  return s.toString().slice(1, -1)
+}
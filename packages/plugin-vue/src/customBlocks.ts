@@ -0,0 +1,215 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { SFCBlock, SFCDescriptor } from 'vue/compiler-sfc'
+import type { TransformPluginContext, TransformResult } from 'rollup'
+import type { Plugin } from 'vite'
+import { tryRequire } from './compiler'
+import { parseVueRequest } from './utils/query'
+import { getDescriptor, getSrcDescriptor } from './utils/descriptorCache'
+import {
+  createCustomBlockError,
+  createUnhandledBlockDiagnostic,
+} from './utils/error'
+import type { ResolvedOptions } from '.'
+
+// 自定义块（<i18n>、<docs>、<route> 等）的转换注册表：
+// 通过 `customBlocks` 选项为每种块类型注册转换函数，json / yaml 内容会先被解析好传给转换函数；
+// 声明为 'strip' 的块不会被主模块导入。
+
+export interface CustomBlockContext {
+  /**
+   * the custom block being transformed
+   */
+  block: SFCBlock
+  /**
+   * index of the block in `descriptor.customBlocks`
+   */
+  index: number
+  descriptor: SFCDescriptor
+  /**
+   * the block's `lang` attribute, or the extension of its `src` file
+   */
+  lang: string | undefined
+  /**
+   * the content parsed according to `lang` for `json`, `yaml` and `yml`
+   * blocks, `undefined` otherwise
+   */
+  data: unknown
+  ssr: boolean
+  pluginContext: TransformPluginContext
+}
+
+export type CustomBlockTransform = (
+  content: string,
+  context: CustomBlockContext,
+) => TransformResult | Promise<TransformResult>
+
+/**
+ * - `function`: transform the block into a JS module. When the module's
+ *   default export is a function, it is called with the component options.
+ * - `'strip'`: remove the block from the compiled component
+ */
+export type CustomBlockOption = CustomBlockTransform | 'strip'
+
+export function isStrippedBlock(
+  type: string,
+  options: ResolvedOptions,
+): boolean {
+  return options.customBlocks?.[type] === 'strip'
+}
+
+export function getCustomBlockTransform(
+  type: string,
+  options: ResolvedOptions,
+): CustomBlockTransform | undefined {
+  const transform = options.customBlocks?.[type]
+  return typeof transform === 'function' ? transform : undefined
+}
+
+export async function transformCustomBlock(
+  code: string,
+  descriptor: SFCDescriptor,
+  index: number,
+  options: ResolvedOptions,
+  pluginContext: TransformPluginContext,
+  ssr: boolean,
+  // the file `code` was read from, differs from the SFC for `src` imports
+  filename: string,
+): Promise<TransformResult> {
+  const block = descriptor.customBlocks[index]
+  const transform = block && getCustomBlockTransform(block.type, options)
+  if (!transform) {
+    return
+  }
+
+  const lang =
+    block.lang || (block.src ? path.extname(block.src).slice(1) : undefined)
+  try {
+    return await transform(code, {
+      block,
+      index,
+      descriptor,
+      lang,
+      // only parsed when used
+      get data() {
+        return loadData(code, lang, options)
+      },
+      ssr,
+      pluginContext,
+    })
+  } catch (e: any) {
+    // errors already reported through the plugin context
+    if (e.plugin || e.pluginCode) throw e
+    pluginContext.error(
+      createCustomBlockError(descriptor, index, filename, code, e, options),
+    )
+  }
+}
+
+// lang-aware loaders
+function loadData(
+  code: string,
+  lang: string | undefined,
+  options: ResolvedOptions,
+): unknown {
+  if (lang === 'json') {
+    return code.trim() ? JSON.parse(code) : undefined
+  }
+  if (lang === 'yaml' || lang === 'yml') {
+    return loadYaml(code, options.root)
+  }
+}
+
+export function loadYaml(code: string, root: string): unknown {
+  // resolve from project root first, then fallback to the plugin's deps
+  const yaml = tryRequire('yaml', root) || tryRequire('yaml')
+  if (yaml) {
+    return yaml.parse(code)
+  }
+  const jsYaml = tryRequire('js-yaml', root) || tryRequire('js-yaml')
+  if (jsYaml) {
+    return jsYaml.load(code)
+  }
+  throw new Error(
+    `Failed to load a YAML parser for a custom block.\n` +
+      `Install either "yaml" or "js-yaml" in your project.`,
+  )
+}
+
+/**
+ * - `'drop'`: remove the block from the compiled component
+ * - `'warn'`: remove the block and log a warning
+ * - `'error'`: fail with an error
+ */
+export type UnhandledBlockPolicy = 'drop' | 'warn' | 'error'
+
+export function getUnhandledBlockPolicy(
+  type: string,
+  options: ResolvedOptions,
+): UnhandledBlockPolicy {
+  const policy = options.unhandledCustomBlocks ?? 'warn'
+  return typeof policy === 'string'
+    ? policy
+    : policy[type] ?? policy['*'] ?? 'warn'
+}
+
+// 检测没有被任何插件处理的自定义块：其子模块内容经过所有 transform 后仍是原始块内容，
+// 会被当成 JS 解析并报出难以理解的语法错误。按 `unhandledCustomBlocks` 选项丢弃、警告或报错。
+// 需要在其它插件（包括 enforce: 'post' 的插件）之后运行，因此作为单独的插件注入。
+
+/**
+ * Plugin checking that custom block sub-modules were transformed by some
+ * plugin. Injected after the user's plugins by the main plugin.
+ */
+export function createUnhandledBlocksPlugin(
+  getOptions: () => ResolvedOptions,
+): Plugin {
+  return {
+    name: 'vite:vue-unhandled-blocks',
+    transform(code, id) {
+      const { filename, query } = parseVueRequest(id)
+      if (
+        !query.vue ||
+        query.index == null ||
+        query.type === 'style' ||
+        query.raw ||
+        query.url
+      ) {
+        return
+      }
+      const options = getOptions()
+      const descriptor = query.src
+        ? getSrcDescriptor(filename, query)
+        : getDescriptor(filename, options, false)
+      const block = descriptor?.customBlocks[query.index]
+      if (!block || options.customBlocks?.[block.type]) {
+        return
+      }
+
+      // the block is unhandled if its content is still what `load` returned
+      const content = query.src
+        ? fs.readFileSync(filename, 'utf-8')
+        : block.content
+      if (code !== content) {
+        return
+      }
+
+      const policy = getUnhandledBlockPolicy(block.type, options)
+      if (policy !== 'drop') {
+        const diagnostic = createUnhandledBlockDiagnostic(
+          descriptor,
+          query.index,
+          options,
+        )
+        if (policy === 'error') {
+          this.error(diagnostic)
+        }
+        this.warn(diagnostic)
+      }
+      return {
+        code: `export default undefined`,
+        map: { mappings: '' },
+      }
+    },
+  }
+}
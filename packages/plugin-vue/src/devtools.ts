@@ -0,0 +1,122 @@
+import path from 'node:path'
+import slash from 'slash'
+import type { SFCBlock, SFCDescriptor } from 'vue/compiler-sfc'
+import type { ResolvedOptions } from '.'
+
+// 通过 _export_sfc 附加到组件上的调试信息（vue-devtools、组件名推断、在编辑器中打开）：
+// - `__file`：文件路径（绝对路径 / 相对项目根目录 / 仅文件名）
+// - `__name`：从文件名推断的组件名
+// - `__sourceLocations`：各个块在文件中的起始位置
+// 未配置 `devtools` 时与之前一致：开发时或开启 `__VUE_PROD_DEVTOOLS__` 时附加 `__file`。
+
+export interface DevtoolsOptions {
+  /**
+   * How the file of the component is exposed as `__file`.
+   * - `'absolute'`: the absolute path
+   * - `'relative'`: the path relative to the project root
+   * - `'basename'`: the file name only
+   * - `false`: not exposed
+   *
+   * @default 'absolute' during dev, 'basename' in production
+   */
+  file?: 'absolute' | 'relative' | 'basename' | false
+  /**
+   * Expose a component name inferred from the file name as `__name`, e.g.
+   * `UserCard` for `user-card.vue` or `UserCard/index.vue`. Components with
+   * a `name` option are still shown with that name.
+   *
+   * @default false
+   */
+  name?: boolean
+  /**
+   * Expose the start location of each block in the file as
+   * `__sourceLocations`, for tools opening the component in an editor.
+   *
+   * @default false
+   */
+  sourceLocations?: boolean
+}
+
+/**
+ * 1-based line and column of the content of a block
+ */
+export interface SourceLocation {
+  line: number
+  column: number
+}
+
+export interface SourceLocations {
+  template?: SourceLocation
+  script?: SourceLocation
+  scriptSetup?: SourceLocation
+  styles: SourceLocation[]
+  customBlocks: SourceLocation[]
+}
+
+// 返回需要通过 _export_sfc 附加的属性
+export function genDevtoolsProps(
+  descriptor: SFCDescriptor,
+  filename: string,
+  options: ResolvedOptions,
+): [string, string][] {
+  const { devtools, devToolsEnabled, devServer, isProduction, root } = options
+  if (
+    devtools === false ||
+    // expose metadata during serve and when devtools are enabled in
+    // production, unless forced
+    (!devtools && !devToolsEnabled && !(devServer && !isProduction))
+  ) {
+    return []
+  }
+  const {
+    file = isProduction ? 'basename' : 'absolute',
+    name = false,
+    sourceLocations = false,
+  }: DevtoolsOptions = typeof devtools === 'object' ? devtools : {}
+
+  const props: [string, string][] = []
+  if (file) {
+    props.push([
+      `__file`,
+      JSON.stringify(
+        file === 'absolute'
+          ? filename
+          : file === 'relative'
+          ? slash(path.relative(root, filename))
+          : path.basename(filename),
+      ),
+    ])
+  }
+  if (name) {
+    props.push([`__name`, JSON.stringify(inferComponentName(filename))])
+  }
+  if (sourceLocations) {
+    const locations: SourceLocations = {
+      template: descriptor.template
+        ? getLocation(descriptor.template)
+        : undefined,
+      script: descriptor.script ? getLocation(descriptor.script) : undefined,
+      scriptSetup: descriptor.scriptSetup
+        ? getLocation(descriptor.scriptSetup)
+        : undefined,
+      styles: descriptor.styles.map(getLocation),
+      customBlocks: descriptor.customBlocks.map(getLocation),
+    }
+    props.push([`__sourceLocations`, JSON.stringify(locations)])
+  }
+  return props
+}
+
+function getLocation(block: SFCBlock): SourceLocation {
+  const { line, column } = block.loc.start
+  return { line, column }
+}
+
+// user-card.vue / UserCard.ce.vue / UserCard/index.vue -> UserCard
+function inferComponentName(filename: string): string {
+  let name = path.basename(filename).split('.')[0]
+  if (name === 'index') {
+    name = path.basename(path.dirname(filename))
+  }
+  return name.replace(/(?:^|[-_\s]+)(\w)/g, (_, c: string) => c.toUpperCase())
+}
@@ -1,18 +1,26 @@
+import fs from 'node:fs'
 import _debug from 'debug'
-import type { SFCBlock, SFCDescriptor } from 'vue/compiler-sfc'
-import type { HmrContext, ModuleNode } from 'vite'
+import type { SFCBlock, SFCDescriptor, SFCScriptBlock } from 'vue/compiler-sfc'
+import type { HmrContext, ModuleNode, ViteDevServer } from 'vite'
 import { isCSSRequest } from 'vite'
 
 import {
   createDescriptor,
+  deleteSrcDescriptor,
   getDescriptor,
   invalidateDescriptor,
+  setSrcDescriptor,
 } from './utils/descriptorCache'
 import {
   getResolvedScript,
   invalidateScript,
   setResolvedScript,
 } from './script'
+import { resolveTemplateCompilerOptions } from './template'
+import { isStrippedBlock } from './customBlocks'
+import { canPatchCssVars } from './cssVars'
+import { remapSourceMap } from './utils/sourceMap'
+import { getLineStarts, getOffset } from './utils/location'
 import type { ResolvedOptions } from '.'
 
 const debug = _debug('vite:hmr')
@@ -50,7 +58,7 @@ export async function handleHotUpdate(
 
   // Script 是否变了？
 
-  const scriptChanged = hasScriptChanged(prevDescriptor, descriptor)
+  const scriptChanged = hasScriptChanged(prevDescriptor, descriptor, options)
   if (scriptChanged) {
     affectedModules.add(getScriptModule(modules) || mainModule)
   }
@@ -65,7 +73,11 @@ export async function handleHotUpdate(
     if (!scriptChanged) {
       setResolvedScript(
         descriptor,
-        getResolvedScript(prevDescriptor, false)!,
+        relocateScript(
+          getResolvedScript(prevDescriptor, false)!,
+          prevDescriptor,
+          descriptor,
+        ),
         false,
       )
     }
@@ -77,7 +89,9 @@ export async function handleHotUpdate(
   const prevStyles = prevDescriptor.styles || []
   const nextStyles = descriptor.styles || []
 
-  // force reload if CSS vars injection changed
+  // re-run the main module if CSS vars injection changed. When the injection
+  // is generated by the plugin, the new vars are applied in place and the
+  // component is only re-rendered, otherwise it is reloaded.
   if (prevDescriptor.cssVars.join('') !== descriptor.cssVars.join('')) {
     affectedModules.add(mainModule)
   }
@@ -121,10 +135,11 @@ export async function handleHotUpdate(
   const prevCustoms = prevDescriptor.customBlocks || []
   const nextCustoms = descriptor.customBlocks || []
 
-  // custom blocks update causes a reload
-  // because the custom block contents is changed and it may be used in JS.
+  // a changed custom block only updates its own sub-module, which is accepted
+  // by the main module and hot-applied onto the component (see
+  // `genCustomBlockCode`). Adding or removing blocks reloads the component.
   // Custom Blocks 是否变了？
-  // 如果变了，也要强制触发更新。
+  let didUpdateCustom = false
   if (prevCustoms.length !== nextCustoms.length) {
     // block removed/added, force reload
     affectedModules.add(mainModule)
@@ -132,12 +147,17 @@ export async function handleHotUpdate(
     for (let i = 0; i < nextCustoms.length; i++) {
       const prev = prevCustoms[i]
       const next = nextCustoms[i]
+      // stripped blocks are not part of the compiled component
+      if (isStrippedBlock(next.type, options) && prev.type === next.type) {
+        continue
+      }
       if (!prev || !isEqualBlock(prev, next)) {
         const mod = modules.find((m) =>
           m.url.includes(`type=${prev.type}&index=${i}`),
         )
         if (mod) {
           affectedModules.add(mod)
+          didUpdateCustom = true
         } else {
           affectedModules.add(mainModule)
         }
@@ -161,6 +181,9 @@ export async function handleHotUpdate(
   if (didUpdateStyle) {
     updateType.push(`style`)
   }
+  if (didUpdateCustom) {
+    updateType.push(`custom`)
+  }
   if (updateType.length) {
     // invalidate the descriptor cache so that the next transform will
     // re-analyze the file and pick up the changes.
@@ -185,14 +208,26 @@ export function isEqualBlock(a: SFCBlock | null, b: SFCBlock | null): boolean {
   return keysA.every((key) => a.attrs[key] === b.attrs[key])
 }
 
+// whether the component can be re-rendered instead of reloaded. Style changes
+// are applied by their own modules, but only CSS vars injected by the plugin
+// in both versions can be updated without re-running `setup()` (see
+// `cssVars.ts`).
 export function isOnlyTemplateChanged(
   prev: SFCDescriptor,
   next: SFCDescriptor,
+  options: ResolvedOptions,
 ): boolean {
+  const canPatchStyles =
+    canPatchCssVars(prev, options, false) &&
+    canPatchCssVars(next, options, false)
   return (
-    !hasScriptChanged(prev, next) &&
+    !hasScriptChanged(prev, next, options) &&
     prev.styles.length === next.styles.length &&
-    prev.styles.every((s, i) => isEqualBlock(s, next.styles[i])) &&
+    prev.styles.every((s, i) =>
+      canPatchStyles
+        ? isEqualBlock(s, { ...next.styles[i], content: s.content })
+        : isEqualBlock(s, next.styles[i]),
+    ) &&
     prev.customBlocks.length === next.customBlocks.length &&
     prev.customBlocks.every((s, i) => isEqualBlock(s, next.customBlocks[i]))
   )
@@ -202,7 +237,11 @@ export function isOnlyTemplateChanged(
 // <script> 内容
 // <script setup> 内容
 // <script setup> 的 import 是否受 <template> 改动影响
-function hasScriptChanged(prev: SFCDescriptor, next: SFCDescriptor): boolean {
+function hasScriptChanged(
+  prev: SFCDescriptor,
+  next: SFCDescriptor,
+  options: ResolvedOptions,
+): boolean {
   if (!isEqualBlock(prev.script, next.script)) {
     return true
   }
@@ -218,12 +257,105 @@ function hasScriptChanged(prev: SFCDescriptor, next: SFCDescriptor): boolean {
   // this is only available in vue@^3.2.23
   const prevImports = prevResolvedScript?.imports
   if (prevImports) {
-    return !next.template || next.shouldForceReload(prevImports)
+    if (!next.template) {
+      return true
+    }
+    return (
+      next.shouldForceReload(prevImports) &&
+      isNewImportReferenced(prevResolvedScript, next, options)
+    )
   }
 
   return false
 }
 
+// `shouldForceReload()` reports imports unused by the previous template whose
+// name now appears in the template, in which case the script has to expose
+// them to the template. But the check is textual: it also matches types in
+// template expressions (`x as Foo`) or properties (`item.ref`). Compile the
+// new template and only reload the script if the render function actually
+// references one of them, so that the component is re-rendered with its
+// state preserved otherwise.
+function isNewImportReferenced(
+  prevScript: SFCScriptBlock,
+  next: SFCDescriptor,
+  options: ResolvedOptions,
+): boolean {
+  const imports = prevScript.imports!
+  const candidates = Object.keys(imports).filter(
+    (key) => !imports[key].isType && !imports[key].isUsedInTemplate,
+  )
+  if (!candidates.length) {
+    return false
+  }
+
+  const compilerOptions = resolveTemplateCompilerOptions(next, options, false)!
+  let code: string
+  try {
+    // binding metadata includes all imports, used in the template or not
+    const result = options.compiler.compileTemplate({
+      ...compilerOptions,
+      source: next.template!.content,
+      compilerOptions: {
+        ...compilerOptions.compilerOptions,
+        bindingMetadata: prevScript.bindings,
+      },
+    })
+    if (result.errors.length) {
+      return true
+    }
+    code = result.code
+  } catch (e) {
+    return true
+  }
+  return candidates.some(
+    (key) =>
+      code.includes(`$setup[${JSON.stringify(key)}]`) ||
+      new RegExp(`\\$setup\\.${key.replace(/\$/g, '\\$')}(?![\\w$])`).test(
+        code,
+      ),
+  )
+}
+
+// 复用的脚本编译结果的 source map 指向旧的源码，模板行数变化后脚本块的位置也会移动，
+// 需要把映射移到脚本块的新位置。
+function relocateScript(
+  script: SFCScriptBlock,
+  prev: SFCDescriptor,
+  next: SFCDescriptor,
+): SFCScriptBlock {
+  if (!script?.map) {
+    return script
+  }
+  const moves = [
+    [prev.script, next.script],
+    [prev.scriptSetup, next.scriptSetup],
+  ].filter(([a, b]) => a && b) as [SFCScriptBlock, SFCScriptBlock][]
+  const lineStarts = getLineStarts(next.source)
+  return {
+    ...script,
+    map: remapSourceMap(
+      script.map,
+      next.filename,
+      next.source,
+      (line, column) => {
+        const move = moves.find(
+          ([block]) =>
+            line >= block.loc.start.line && line <= block.loc.end.line,
+        )
+        return (
+          move &&
+          getOffset(
+            lineStarts,
+            line + move[1].loc.start.line - move[0].loc.start.line,
+            column,
+          )
+        )
+      },
+    ),
+  }
+}
+
 // 找出该 .vue 文件的主模块（用于热更新）
 function getMainModule(modules: ModuleNode[]) {
   return (
@@ -259,3 +391,97 @@ export function handleTypeDepChange(
   }
   return [...modules, ...affected]
 }
+
+// 外部 src 文件（<template src> / <style src>）变更时的处理：
+// 找到引用它的每个 SFC，用最新的 descriptor 重新关联该 src 文件，
+// 并把更新精确路由到这些 SFC 各自的 template / style 子模块（scoped 样式每个 SFC 一份）。
+
+/**
+ * Route changes of files imported through `src` to the template and style
+ * sub-modules of every SFC referencing them.
+ */
+export async function handleSrcDepChange(
+  owners: SFCDescriptor[],
+  { file, modules, server }: HmrContext,
+  options: ResolvedOptions,
+): Promise<ModuleNode[]> {
+  const affected = new Set<ModuleNode | undefined>(
+    // script and custom block src imports, or regular imports of the file,
+    // are updated as usual
+    modules.filter((m) => !/[?&]type=(template|style)\b/.test(m.url)),
+  )
+
+  for (const owner of new Set(owners.map((d) => d.filename))) {
+    let descriptor: SFCDescriptor | undefined
+    try {
+      // the cached descriptor is dropped once the owner itself is updated
+      descriptor = fs.existsSync(owner)
+        ? getDescriptor(owner, options)
+        : undefined
+    } catch (e) {
+      // parse errors are reported when the owner is requested
+      continue
+    }
+    if (!descriptor) {
+      deleteSrcDescriptor(owner, file)
+      continue
+    }
+
+    const ownerModules = [...(server.moduleGraph.getModulesByFile(owner) || [])]
+    let isOwner = false
+    const { template, styles } = descriptor
+    if (
+      template?.src &&
+      (await resolveSrcFile(template.src, owner, server)) === file
+    ) {
+      isOwner = true
+      // re-link so that the template is compiled with the current bindings
+      setSrcDescriptor(file, descriptor)
+      affected.add(
+        modules.find((m) =>
+          m.url.includes(`type=template&src=${descriptor!.id}`),
+        ) || getMainModule(ownerModules),
+      )
+    }
+    for (let i = 0; i < styles.length; i++) {
+      const style = styles[i]
+      if (
+        !style.src ||
+        (await resolveSrcFile(style.src, owner, server)) !== file
+      ) {
+        continue
+      }
+      isOwner = true
+      setSrcDescriptor(file, descriptor)
+      const srcQuery = style.scoped ? descriptor.id : 'true'
+      affected.add(
+        modules.find(
+          (m) =>
+            m.url.includes(`type=style&index=${i}&src=${srcQuery}`) &&
+            !directRequestRE.test(m.url),
+        ) || getMainModule(ownerModules),
+      )
+    }
+    if (
+      !isOwner &&
+      !descriptor.script?.src &&
+      !descriptor.customBlocks.some((b) => b.src)
+    ) {
+      // the file is no longer imported by this SFC
+      deleteSrcDescriptor(owner, file)
+    }
+  }
+
+  debug(`[vue:src-update] ${file}`)
+  return [...affected].filter(Boolean) as ModuleNode[]
+}
+
+async function resolveSrcFile(
+  src: string,
+  importer: string,
+  server: ViteDevServer,
+): Promise<string> {
+  const resolved = (await server.pluginContainer.resolveId(src, importer))?.id
+  // same as `linkSrcToDescriptor`
+  return (resolved || src).replace(/\?.*$/, '')
+}
@@ -12,22 +12,102 @@ import type * as _compiler from 'vue/compiler-sfc'
 /* eslint-enable import/no-duplicates */
 import { computed, shallowRef } from 'vue'
 import { version } from '../package.json'
-import { resolveCompiler } from './compiler'
+import { resolveCompiler, resolveCompilerPath } from './compiler'
 import { parseVueRequest } from './utils/query'
 import {
   getDescriptor,
   getSrcDescriptor,
+  getSrcOwners,
   getTempSrcDescriptor,
 } from './utils/descriptorCache'
 import { getResolvedScript, typeDepToSFCMap } from './script'
 import { transformMain } from './main'
-import { handleHotUpdate, handleTypeDepChange } from './handleHotUpdate'
+import {
+  handleHotUpdate,
+  handleSrcDepChange,
+  handleTypeDepChange,
+} from './handleHotUpdate'
 import { transformTemplateAsModule } from './template'
 import { transformStyle } from './style'
 import { EXPORT_HELPER_ID, helperCode } from './helper'
+import type { CacheOptions } from './cache'
+import type { DiagnosticsOptions } from './utils/error'
+import { createWorkerPool, isSerializable, resolvePoolSize } from './parallel'
+import type { WorkerPool } from './parallel'
+import {
+  createManifestEntry,
+  generateManifest,
+  resolveManifestFileName,
+} from './manifest'
+import type { ComponentManifestEntry } from './manifest'
+import {
+  createUnhandledBlocksPlugin,
+  transformCustomBlock,
+} from './customBlocks'
+import type { CustomBlockOption, UnhandledBlockPolicy } from './customBlocks'
+import {
+  checkTypes,
+  isTypeCheckEnabled,
+  registerTypeCheckFile,
+} from './typeCheck'
+import type { TypeCheckFiles, TypeCheckOptions } from './typeCheck'
+import type { DevtoolsOptions } from './devtools'
+import type { InspectorOptions } from './inspector'
+import { createOpenInEditorMiddleware } from './inspector'
+import type { SSROptions } from './ssr'
+import type { ScriptPreprocessor, TemplatePreprocessor } from './preprocessors'
+import { resolveMarkdownFilter } from './markdown'
+import type { MarkdownOptions } from './markdown'
+import { isMarkdownFile } from './utils/markdown'
 
 export { parseVueRequest } from './utils/query'
 export type { VueQuery } from './utils/query'
+export type { CacheOptions } from './cache'
+export { compileSFC } from './compileSFC'
+export { DiagnosticCodes } from './utils/error'
+export type {
+  DiagnosticCategory,
+  DiagnosticSeverity,
+  DiagnosticsOptions,
+  DiagnosticCode,
+  DiagnosticPosition,
+  SFCBlockType,
+  SFCDiagnosticMeta,
+} from './utils/error'
+export type {
+  CompileSFCOptions,
+  CompileSFCResult,
+  CompiledBlock,
+  CompiledStyle,
+} from './compileSFC'
+export type {
+  CustomBlockContext,
+  CustomBlockOption,
+  CustomBlockTransform,
+  UnhandledBlockPolicy,
+} from './customBlocks'
+export type {
+  ComponentManifest,
+  ComponentManifestEntry,
+  ComponentManifestStyle,
+} from './manifest'
+export type { TypeCheckOptions } from './typeCheck'
+export type {
+  ScriptPreprocessContext,
+  ScriptPreprocessResult,
+  ScriptPreprocessor,
+  TemplatePreprocessContext,
+  TemplatePreprocessResult,
+  TemplatePreprocessor,
+} from './preprocessors'
+export type { MarkdownOptions, MarkdownRenderContext } from './markdown'
+export type {
+  DevtoolsOptions,
+  SourceLocation,
+  SourceLocations,
+} from './devtools'
+export type { InspectorOptions } from './inspector'
+export type { SSROptions, SSRModuleInfo } from './ssr'
 
 export interface Options {
   include?: string | RegExp | (string | RegExp)[]
@@ -47,7 +127,15 @@ export interface Options {
       | 'reactivityTransform'
       | 'hoistStatic'
     >
-  >
+  > & {
+    /**
+     * Preprocessors of `<script>` and `<script setup>` blocks by `lang`,
+     * e.g. `coffee`. They return the JavaScript code of the block, and
+     * optionally a source map to the block content, which is then compiled
+     * like a `lang="js"` block.
+     */
+    preprocessors?: Record<string, ScriptPreprocessor>
+  }
   template?: Partial<
     Pick<
       SFCTemplateCompileOptions,
@@ -57,7 +145,14 @@ export interface Options {
       | 'preprocessCustomRequire'
       | 'transformAssetUrls'
     >
-  >
+  > & {
+    /**
+     * Preprocessors of `<template>` blocks by `lang`, e.g. `pug` or `md`,
+     * taking precedence over `preprocessOptions`. They may be async, and
+     * return the HTML of the template with an optional source map.
+     */
+    preprocessors?: Record<string, TemplatePreprocessor>
+  }
   style?: Partial<Pick<SFCStyleCompileOptions, 'trim'>>
 
   /**
@@ -90,15 +185,184 @@ export interface Options {
    * Use custom compiler-sfc instance. Can be used to force a specific version.
    */
   compiler?: typeof _compiler
+
+  /**
+   * Persist compiled SFC output (main module, template and style
+   * sub-modules) on disk so that unchanged components are not recompiled
+   * after a restart. Entries are keyed by file content, the compiler-sfc and
+   * plugin versions and the resolved options, and are invalidated when any
+   * of them (or a type file imported by the component) changes.
+   * - `true`: cache in `<cacheDir>/vue` with a 100MB size cap
+   * - `object`: customize the cache directory and size cap
+   *
+   * @default false
+   */
+  cache?: boolean | CacheOptions
+
+  /**
+   * Compile the script and template of SFCs in worker threads during build.
+   * - `true`: use one worker per CPU core (minus one)
+   * - `number`: use the given number of workers
+   *
+   * Workers are only used when all options passed to compiler-sfc are
+   * serializable, i.e. don't contain functions such as
+   * `template.compilerOptions.isCustomElement`, and no custom `compiler` is
+   * provided. Otherwise compilation stays on the main thread.
+   *
+   * @default false
+   */
+  parallel?: boolean | number
+
+  /**
+   * Emit a JSON manifest describing every compiled SFC (file, scope id,
+   * props, emits, styles, custom blocks and dynamically imported files)
+   * alongside the build output.
+   * - `true`: emit as `vue-manifest.json`
+   * - `string`: emit with the given file name
+   *
+   * @default false
+   */
+  manifest?: boolean | string
+
+  /**
+   * Severity of SFC compiler warnings by category: `'off'` drops them,
+   * `'warn'` logs them and `'error'` fails the build.
+   * - `templateTips`: tips returned by `compileTemplate()`
+   * - `deprecations`: deprecated features, e.g. importing compiler macros
+   * - `experimentalFeatures`: experimental features, e.g. `defineModel()`
+   * - `scriptWarnings`: other warnings of `compileScript()`
+   * - `styleWarnings`: warnings of PostCSS plugins
+   * - `unusedProps`: props declared in `<script setup>` but never used
+   * - `typeErrors`: TypeScript diagnostics of the `typeCheck` option
+   *
+   * @default { unusedProps: 'off', typeErrors: 'error' } (everything else `'warn'`)
+   */
+  diagnostics?: DiagnosticsOptions
+
+  /**
+   * Transformers for custom blocks by block type, e.g. `i18n` or `docs`.
+   * - `function`: called with the block content and a context holding the
+   *   block, its `lang` and, for `json` and `yaml` blocks, the parsed `data`.
+   *   Returns a JS module, whose default export is called with the component
+   *   options when it is a function.
+   * - `'strip'`: the block is removed from the compiled component
+   *
+   * Block types without an entry are left to other Vite plugins.
+   */
+  customBlocks?: Record<string, CustomBlockOption>
+
+  /**
+   * What to do with custom blocks that no plugin transformed, whose raw
+   * content would otherwise be imported as JS.
+   * - `'drop'`: remove the block silently
+   * - `'warn'`: remove the block and log a warning
+   * - `'error'`: fail with an error
+   * - `object`: policy by block type, with `'*'` for the other types
+   *
+   * @default 'warn'
+   */
+  unhandledCustomBlocks?:
+    | UnhandledBlockPolicy
+    | Record<string, UnhandledBlockPolicy>
+
+  /**
+   * Type check `<script setup lang="ts">` and `<script lang="ts">` during
+   * build, reporting TypeScript diagnostics at their location in the SFC.
+   * The output of `compileScript()` is checked with the
+   * `script.globalTypeFiles` and `script.fs` options, and the compiler
+   * options of the project's tsconfig.
+   * Requires `typescript` to be installed. Errors fail the build unless
+   * `diagnostics.typeErrors` is set to `'warn'`.
+   * - `true`: use the nearest `tsconfig.json` of the root
+   * - `object`: customize the tsconfig
+   *
+   * @default false
+   */
+  typeCheck?: boolean | TypeCheckOptions
+
+  /**
+   * Compile markdown files into components. The rendered markdown becomes
+   * the template, top-level `<script>` and `<style>` blocks are kept as SFC
+   * blocks, and the frontmatter (as `frontmatter`) and the content of
+   * ` ```js setup ` / ` ```ts setup ` code blocks are added to
+   * `<script setup>`. Matched files are handled like `.vue` files, regardless
+   * of `include` and `exclude`.
+   * - `true`: convert `.md` files, rendered with `markdown-it`
+   * - `object`: customize the matched files and the renderer
+   *
+   * @default false
+   */
+  markdown?: boolean | MarkdownOptions
+
+  /**
+   * How the id of each SFC is generated. It scopes `<style scoped>` (as
+   * `data-v-<id>`) and identifies the component for HMR.
+   * - `'path'`: a hash of the file path relative to the root, stable across
+   *   content changes
+   * - `'content'`: in production, a hash of the file path and content.
+   *   During dev, ids only depend on the path so that HMR can find the
+   *   component again.
+   * - `function`: returns the id from the absolute file path, the source and
+   *   the root. It must only contain letters, digits, `_` and `-`, and not
+   *   change with the source during dev.
+   *
+   * @default 'content'
+   */
+  scopeId?:
+    | 'path'
+    | 'content'
+    | ((filename: string, source: string, root: string) => string)
+
+  /**
+   * Prepended to every SFC id, so that the scoped styles of independently
+   * built apps on the same page never clash, e.g. `'admin-'`. It must only
+   * contain letters, digits, `_` and `-`.
+   *
+   * @default ''
+   */
+  scopeIdPrefix?: string
+
+  /**
+   * Metadata attached to components for devtools and debugging.
+   * - `undefined`: expose the file as `__file` during dev (absolute path) and
+   *   when `__VUE_PROD_DEVTOOLS__` is enabled in production (file name only)
+   * - `true`: also expose it in production builds without devtools
+   * - `object`: same as `true`, customizing what is exposed
+   * - `false`: expose nothing, even during dev
+   */
+  devtools?: boolean | DevtoolsOptions
+
+  /**
+   * Dev only: open the SFC of an element clicked in the browser in your
+   * editor. Elements of templates get a `data-v-inspector="file:line:column"`
+   * attribute, and `/__open-in-editor?file=<file>:<line>:<column>` opens the
+   * file (relative to the project root) at that location, using Vite's
+   * editor launcher (see the `LAUNCH_EDITOR` environment variable).
+   *
+   * @default false
+   */
+  inspector?: boolean | InspectorOptions
+
+  /**
+   * Registration of the SFCs rendered during SSR. Each SFC is added to
+   * `ssrContext.modules` (used to render preload links from the SSR
+   * manifest), and passed to `registrar` with more metadata when given.
+   * `registerModules` limits or disables it. `collectCss` also collects the
+   * CSS of rendered SFCs, to inline it in the HTML.
+   */
+  ssr?: SSROptions
 }
 
 export interface ResolvedOptions extends Options {
   compiler: typeof _compiler
   root: string
+  cacheDir: string
   sourceMap: boolean
   cssDevSourcemap: boolean
   devServer?: ViteDevServer
   devToolsEnabled?: boolean
+  workerPool?: WorkerPool
+  markdownFilter?: (id: unknown) => boolean
 }
 
 // 定义了 vite:vue 插件的主入口。它允许 Vite 正确解析 .vue 文件、
@@ -113,11 +377,20 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
     reactivityTransform: false,
     ...rawOptions,
     root: process.cwd(),
+    cacheDir: 'node_modules/.vite',
     sourceMap: true,
     cssDevSourcemap: false,
     devToolsEnabled: process.env.NODE_ENV !== 'production',
   })
 
+  // 检查未被处理的自定义块，在 configResolved 中插入到其它插件之后
+  const unhandledBlocksPlugin = createUnhandledBlocksPlugin(() => options.value)
+
+  // 构建过程中收集的组件清单条目，key 为文件路径
+  const manifestEntries = new Map<string, ComponentManifestEntry>()
+  // 构建过程中收集的待类型检查的组件
+  const typeCheckFiles: TypeCheckFiles = new Map()
+
   // 生成用于 .vue 文件过滤的函数。
   const filter = computed(() =>
     createFilter(options.value.include, options.value.exclude),
@@ -165,7 +438,11 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
       if (typeDepToSFCMap.has(ctx.file)) {
         return handleTypeDepChange(typeDepToSFCMap.get(ctx.file)!, ctx)
       }
-      if (filter.value(ctx.file)) {
+      const srcOwners = getSrcOwners(ctx.file)
+      if (srcOwners.length) {
+        return handleSrcDepChange(srcOwners, ctx, options.value)
+      }
+      if (filter.value(ctx.file) || isMarkdownFile(ctx.file, options.value)) {
         return handleHotUpdate(ctx, options.value)
       }
     },
@@ -197,17 +474,41 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
       options.value = {
         ...options.value,
         root: config.root,
+        cacheDir: config.cacheDir,
         sourceMap: config.command === 'build' ? !!config.build.sourcemap : true,
         cssDevSourcemap: config.css?.devSourcemap ?? false,
         isProduction: config.isProduction,
         devToolsEnabled:
           !!config.define!.__VUE_PROD_DEVTOOLS__ || !config.isProduction,
+        markdownFilter: resolveMarkdownFilter(options.value.markdown),
+      }
+
+      // the check has to see the output of all other plugins' transforms,
+      // and run before import analysis parses custom block modules as JS
+      const plugins = config.plugins as Plugin[]
+      if (!plugins.includes(unhandledBlocksPlugin)) {
+        const index = plugins.findIndex(
+          (p) =>
+            p.name === 'vite:import-analysis' ||
+            p.name === 'vite:build-import-analysis',
+        )
+        plugins.splice(
+          index === -1 ? plugins.length : index,
+          0,
+          unhandledBlocksPlugin,
+        )
       }
     },
 
     // 记录开发服务器实例，用于热更新监听。
     configureServer(server) {
       options.value.devServer = server
+      if (options.value.inspector && !options.value.isProduction) {
+        server.middlewares.use(
+          '/__open-in-editor',
+          createOpenInEditorMiddleware(options.value.root),
+        )
+      }
     },
 
     // 初始化 Vue SFC 编译器；监听文件删除以清理类型缓存。
@@ -219,6 +520,62 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
           compiler.invalidateTypeCache(file)
         })
       }
+
+      // worker threads are only used for builds
+      if (options.value.parallel && !options.value.devServer) {
+        const {
+          compiler: _,
+          devServer,
+          workerPool,
+          // not used by workers, and may contain functions
+          customBlocks,
+          markdown,
+          markdownFilter,
+          scopeId,
+          ...workerOptions
+        } = options.value
+        const compilerPath =
+          !rawOptions.compiler && resolveCompilerPath(options.value.root)
+        if (compilerPath && isSerializable(workerOptions)) {
+          options.value.workerPool = createWorkerPool(
+            // next to the entry, `parallel.ts` may be bundled into a chunk
+            new URL('./worker.mjs', import.meta.url),
+            resolvePoolSize(options.value.parallel),
+            { compilerPath, options: workerOptions },
+          )
+        }
+      }
+    },
+
+    // 构建结束时关闭 worker 线程池，并对 TS 组件做类型检查
+    async buildEnd(error) {
+      if (options.value.workerPool) {
+        await options.value.workerPool.terminate()
+        options.value.workerPool = undefined
+      }
+      if (options.value.typeCheck && !options.value.devServer && !error) {
+        checkTypes(typeCheckFiles, this, options.value)
+      }
+    },
+
+    // 输出组件清单
+    generateBundle() {
+      const fileName = resolveManifestFileName(options.value.manifest)
+      if (fileName) {
+        // `build --watch` doesn't re-transform unchanged modules, keep their
+        // entries but drop the ones of components no longer part of the build
+        const moduleIds = new Set(this.getModuleIds())
+        for (const filename of manifestEntries.keys()) {
+          if (!moduleIds.has(filename)) {
+            manifestEntries.delete(filename)
+          }
+        }
+        this.emitFile({
+          type: 'asset',
+          fileName,
+          source: JSON.stringify(generateManifest(manifestEntries), null, 2),
+        })
+      }
     },
 
     // 对 export helper 做特殊处理；
@@ -263,7 +620,8 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
         if (block) {
           return {
             code: block.content,
-            map: block.map as any,
+            // type checked scripts have a map even without build source maps
+            map: options.value.sourceMap ? (block.map as any) : undefined,
           }
         }
       }
@@ -273,7 +631,7 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
     // 针对 .vue 主文件，调用 transformMain；
     // 针对子 block 模块，分别调用 transformTemplateAsModule 或 transformStyle；
     // 若开启了 refTransform，对普通 JS/TS 文件也可转换响应式变量。
-    transform(code, id, opt) {
+    async transform(code, id, opt) {
       const ssr = opt?.ssr === true
       const { filename, query } = parseVueRequest(id)
 
@@ -281,7 +639,11 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
         return
       }
 
-      if (!filter.value(filename) && !query.vue) {
+      if (
+        !filter.value(filename) &&
+        !isMarkdownFile(filename, options.value) &&
+        !query.vue
+      ) {
         if (
           !query.vue &&
           refTransformFilter.value(filename) &&
@@ -297,7 +659,7 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
 
       if (!query.vue) {
         // main request
-        return transformMain(
+        const result = await transformMain(
           code,
           filename,
           options.value,
@@ -305,6 +667,26 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
           ssr,
           customElementFilter.value(filename),
         )
+        if (options.value.manifest && !options.value.devServer && result) {
+          const descriptor = getDescriptor(filename, options.value, false)!
+          manifestEntries.set(
+            filename,
+            await createManifestEntry(
+              descriptor,
+              getResolvedScript(descriptor, ssr),
+              options.value,
+              this,
+            ),
+          )
+        }
+        if (result) {
+          const descriptor = getDescriptor(filename, options.value, false)!
+          const script = getResolvedScript(descriptor, ssr)
+          if (script && isTypeCheckEnabled(descriptor, options.value, ssr)) {
+            registerTypeCheckFile(typeCheckFiles, descriptor, script)
+          }
+        }
+        return result
       } else {
         // sub block request
         const descriptor = query.src
@@ -329,6 +711,16 @@ export default function vuePlugin(rawOptions: Options = {}): Plugin {
             this,
             filename,
           )
+        } else if (query.index != null) {
+          return transformCustomBlock(
+            code,
+            descriptor,
+            query.index,
+            options.value,
+            this,
+            ssr,
+            filename,
+          )
         }
       }
     },
@@ -0,0 +1,118 @@
+import path from 'node:path'
+import slash from 'slash'
+import type { CompilerOptions, SFCDescriptor } from 'vue/compiler-sfc'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { ResolvedOptions } from '.'
+
+// 开发时的组件检查：点击浏览器中的元素，在编辑器中打开模板中对应的行。
+// - 模板中的元素加上 `data-v-inspector="file:line:column"` 属性（文件路径相对于项目根目录）
+// - `/__open-in-editor?file=...&line=...&column=...` 把相对路径解析到项目根目录后，
+//   交给 Vite 自带的 launch-editor 中间件打开编辑器
+// 模板编译也会在 worker 线程中执行，因此这里不能依赖 vite。
+
+export interface InspectorOptions {
+  /**
+   * Add a `data-v-inspector="<file>:<line>:<column>"` attribute to the
+   * elements of templates, with the file relative to the project root.
+   *
+   * @default true
+   */
+  attribute?: boolean
+}
+
+export const INSPECTOR_ATTRIBUTE = 'data-v-inspector'
+
+type NodeTransform = NonNullable<CompilerOptions['nodeTransforms']>[number]
+
+function resolveInspectorOptions(
+  options: ResolvedOptions,
+): InspectorOptions | undefined {
+  // dev only: the locations are useless (and leak paths) in production
+  if (!options.inspector || !options.devServer || options.isProduction) {
+    return
+  }
+  return options.inspector === true ? {} : options.inspector
+}
+
+/**
+ * Template transform adding the location of each element as an attribute.
+ * Locations of pre-processed templates (e.g. pug) don't match the file, so
+ * only plain HTML templates are instrumented.
+ */
+export function createInspectorTransform(
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+): NodeTransform | undefined {
+  const inspector = resolveInspectorOptions(options)
+  const block = descriptor.template
+  if (
+    !inspector ||
+    inspector.attribute === false ||
+    !block ||
+    block.src ||
+    (block.lang && block.lang !== 'html')
+  ) {
+    return
+  }
+  const file = slash(path.relative(options.root, descriptor.filename))
+  const start = block.loc.start
+
+  return (node: any) => {
+    // NodeTypes.ELEMENT with ElementTypes.ELEMENT: components, slots and
+    // <template> don't render an element of their own
+    if (node.type !== 1 || node.tagType !== 0) {
+      return
+    }
+    // locations are relative to the content of the template block
+    const { line, column } = node.loc.start
+    const location = `${file}:${line + start.line - 1}:${
+      line === 1 ? column + start.column - 1 : column
+    }`
+    node.props.push({
+      // NodeTypes.ATTRIBUTE
+      type: 6,
+      name: INSPECTOR_ATTRIBUTE,
+      value: {
+        // NodeTypes.TEXT
+        type: 2,
+        content: location,
+        loc: node.loc,
+      },
+      loc: node.loc,
+    })
+  }
+}
+
+/**
+ * Serves `/__open-in-editor?file=<file>[:<line>[:<column>]]` (or with `line`
+ * and `column` query parameters), resolving `file` against the project root,
+ * e.g. with the value of a `data-v-inspector` attribute.
+ */
+export function createOpenInEditorMiddleware(
+  root: string,
+): (req: IncomingMessage, res: ServerResponse, next: () => void) => void {
+  return (req, res, next) => {
+    const query = new URL(req.url || '/', 'http://localhost').searchParams
+    const file = query.get('file')
+    if (!file) {
+      res.statusCode = 400
+      res.end('missing "file" query parameter')
+      return
+    }
+    // path:line:column
+    let [, filePath, position] = file.match(/^(.*?)((?::\d+){0,2})$/)!
+    const line = query.get('line')
+    const column = query.get('column')
+    if (!position && line && /^\d+$/.test(line)) {
+      position = `:${line}`
+      if (column && /^\d+$/.test(column)) {
+        position += `:${column}`
+      }
+    }
+    // let the launch-editor middleware of Vite open the file
+    req.url = `/?file=${encodeURIComponent(
+      path.resolve(root, filePath) + position,
+    )}`
+    next()
+  }
+}
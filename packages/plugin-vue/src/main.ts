@@ -1,13 +1,9 @@
 import path from 'node:path'
 import fs from 'node:fs'
 import type { SFCBlock, SFCDescriptor } from 'vue/compiler-sfc'
-import type { PluginContext, TransformPluginContext } from 'rollup'
+import type { PluginContext, RollupLog, TransformPluginContext } from 'rollup'
 import type { RawSourceMap } from 'source-map-js'
-import type { EncodedSourceMap as TraceEncodedSourceMap } from '@jridgewell/trace-mapping'
-import { TraceMap, eachMapping } from '@jridgewell/trace-mapping'
-import type { EncodedSourceMap as GenEncodedSourceMap } from '@jridgewell/gen-mapping'
-import { addMapping, fromMap, toEncodedMap } from '@jridgewell/gen-mapping'
-import { normalizePath, transformWithEsbuild } from 'vite'
+import { transformWithEsbuild } from 'vite'
 import {
   createDescriptor,
   getDescriptor,
@@ -16,14 +12,35 @@ import {
 } from './utils/descriptorCache'
 import {
   canInlineMain,
+  getResolvedScript,
   isUseInlineTemplate,
+  registerTypeDeps,
   resolveScript,
   scriptIdentifier,
+  setResolvedScript,
+  toSerializableScript,
 } from './script'
 import { transformTemplateInMain } from './template'
+import { getTemplatePreprocessor } from './preprocessors'
 import { isEqualBlock, isOnlyTemplateChanged } from './handleHotUpdate'
-import { createRollupError } from './utils/error'
+import { createParseError } from './utils/error'
+import { concatSourceMaps, shiftEditedColumns } from './utils/sourceMap'
 import { EXPORT_HELPER_ID } from './helper'
+import { genDevtoolsProps } from './devtools'
+import {
+  captureWarnings,
+  createCacheKey,
+  hashDeps,
+  isCacheEnabled,
+  readCache,
+  replayWarnings,
+  writeCache,
+} from './cache'
+import { compileInWorker } from './parallel'
+import { getCustomBlockTransform, isStrippedBlock } from './customBlocks'
+import { checkUnusedProps } from './unusedProps'
+import { canPatchCssVars, genCssVarsCode } from './cssVars'
+import { genSSRRegistrationCode, isSSRRegistrationEnabled } from './ssr'
 import type { ResolvedOptions } from '.'
 
 // eslint-disable-next-line @typescript-eslint/explicit-module-boundary-types
@@ -39,7 +56,7 @@ export async function transformMain(
   // 获取上次的 descriptor（用于比较）；
   // 解析当前 .vue 文件得到结构描述符 descriptor；
   // 捕获解析错误，停止编译。
-  const { devServer, isProduction, devToolsEnabled } = options
+  const { devServer, isProduction } = options
 
   const prevDescriptor = getPrevDescriptor(filename)
   const { descriptor, errors } = createDescriptor(filename, code, options)
@@ -50,11 +67,48 @@ export async function transformMain(
 
   if (errors.length) {
     errors.forEach((error) =>
-      pluginContext.error(createRollupError(filename, error)),
+      pluginContext.error(createParseError(descriptor, error, options)),
     )
     return null
   }
 
+  // persistent cache. Skipped when re-transforming after a hot update since
+  // the output then also depends on the previous descriptor.
+  let cacheKey: string | undefined
+  let cacheWarnings: RollupLog[] | undefined
+  if (isCacheEnabled(options) && !prevDescriptor) {
+    cacheKey = createCacheKey('main', filename, code, options, {
+      ssr,
+      asCustomElement,
+    })
+    const cached = readCache(cacheKey, options)
+    if (cached) {
+      if (cached.script) {
+        // the script and template sub-modules still need the resolved script
+        setResolvedScript(descriptor, cached.script, ssr)
+      }
+      await linkSrcBlocks(descriptor, pluginContext)
+      if (!isProduction) {
+        registerTypeDeps(filename, Object.keys(cached.deps || {}))
+      }
+      replayWarnings(pluginContext, cached.warnings)
+      return cached.result
+    }
+    ;[pluginContext, cacheWarnings] = captureWarnings(pluginContext)
+  }
+
+  // compile script and template in a worker thread, the results are picked
+  // up by the code generation steps below.
+  if (options.workerPool) {
+    await compileInWorker(
+      options.workerPool,
+      descriptor,
+      options,
+      pluginContext,
+      ssr,
+    )
+  }
+
   // feature information
   const attachedProps: [string, string][] = []
   const hasScoped = descriptor.styles.some((s) => s.scoped)
@@ -68,10 +122,18 @@ export async function transformMain(
     pluginContext,
     ssr,
   )
+  if (!ssr) {
+    checkUnusedProps(
+      descriptor,
+      getResolvedScript(descriptor, ssr),
+      options,
+      pluginContext,
+    )
+  }
 
   // template
   const hasTemplateImport =
-    descriptor.template && !isUseInlineTemplate(descriptor, !devServer)
+    descriptor.template && !isUseInlineTemplate(descriptor, !devServer, options)
 
   let templateCode = ''
   let templateMap: RawSourceMap | undefined = undefined
@@ -108,17 +170,29 @@ export async function transformMain(
   // 若是 asCustomElement，则注入 styles 属性；
   // 若含有 module，注入 __cssModules 属性；
   // 最后将 scoped ID 注入到组件上：
+  const styleRequests: string[] = []
   const stylesCode = await genStyleCode(
     descriptor,
     pluginContext,
     asCustomElement,
     attachedProps,
+    styleRequests,
   )
 
   // custom blocks
   // 历 <custom-block>，生成 import 并执行（如 block0(_sfc_main)）；
   // 支持 <i18n>, <docs>, <test> 等自定义插件处理。
-  const customBlocksCode = await genCustomBlockCode(descriptor, pluginContext)
+  const hmrEnabled =
+    !!devServer &&
+    devServer.config.server.hmr !== false &&
+    !ssr &&
+    !isProduction
+  const customBlocksCode = await genCustomBlockCode(
+    descriptor,
+    options,
+    pluginContext,
+    hmrEnabled,
+  )
 
   const output: string[] = [
     scriptCode,
@@ -126,33 +200,37 @@ export async function transformMain(
     stylesCode,
     customBlocksCode,
   ]
+  // CSS vars injection that can be replaced during HMR
+  if (canPatchCssVars(descriptor, options, ssr)) {
+    output.push(
+      genCssVarsCode(descriptor, getResolvedScript(descriptor, ssr), options),
+    )
+  }
   if (hasScoped) {
-    // 在开发模式或开启 devtools 时注入 __file 字段用于调试或 devtools 显示组件名。
     attachedProps.push([`__scopeId`, JSON.stringify(`data-v-${descriptor.id}`)])
   }
-  if (devToolsEnabled || (devServer && !isProduction)) {
-    // expose filename during serve for devtools to pickup
-    attachedProps.push([
-      `__file`,
-      JSON.stringify(isProduction ? path.basename(filename) : filename),
-    ])
-  }
+  // 在开发模式或开启 devtools 时注入 __file 等字段用于调试或 devtools 显示组件名。
+  // expose filename and other metadata for devtools to pickup
+  attachedProps.push(...genDevtoolsProps(descriptor, filename, options))
 
   // HMR
   // 处理 HMR 热更新逻辑
-  if (
-    devServer &&
-    devServer.config.server.hmr !== false &&
-    !ssr &&
-    !isProduction
-  ) {
+  if (hmrEnabled) {
     output.push(`_sfc_main.__hmrId = ${JSON.stringify(descriptor.id)}`)
     output.push(
       `typeof __VUE_HMR_RUNTIME__ !== 'undefined' && ` +
         `__VUE_HMR_RUNTIME__.createRecord(_sfc_main.__hmrId, _sfc_main)`,
     )
+    // the first definition stays the live one, later reloads are copied
+    // onto it. Custom block updates are applied to it directly.
+    output.push(
+      `if (!import.meta.hot.data.component) import.meta.hot.data.component = _sfc_main`,
+    )
     // check if the template is the only thing that changed
-    if (prevDescriptor && isOnlyTemplateChanged(prevDescriptor, descriptor)) {
+    if (
+      prevDescriptor &&
+      isOnlyTemplateChanged(prevDescriptor, descriptor, options)
+    ) {
       output.push(`export const _rerender_only = true`)
     }
     output.push(
@@ -168,67 +246,32 @@ export async function transformMain(
     )
   }
 
-  // SSR module registration by wrapping user setup
+  // SSR module registration by wrapping user setup (or with a hook)
   // SSR 运行时注册
   // 用于在服务端渲染过程中注册当前组件到 ssrContext.modules；
   // Vue SSR 的模块缓存系统依赖此机制。
-  if (ssr) {
-    const normalizedFilename = normalizePath(
-      path.relative(options.root, filename),
-    )
+  if (ssr && isSSRRegistrationEnabled(filename, options)) {
     output.push(
-      `import { useSSRContext as __vite_useSSRContext } from 'vue'`,
-      `const _sfc_setup = _sfc_main.setup`,
-      `_sfc_main.setup = (props, ctx) => {`,
-      `  const ssrContext = __vite_useSSRContext()`,
-      `  ;(ssrContext.modules || (ssrContext.modules = new Set())).add(${JSON.stringify(
-        normalizedFilename,
-      )})`,
-      `  return _sfc_setup ? _sfc_setup(props, ctx) : undefined`,
-      `}`,
+      await genSSRRegistrationCode(
+        descriptor,
+        styleRequests,
+        options,
+        pluginContext,
+      ),
     )
   }
 
   let resolvedMap: RawSourceMap | undefined = undefined
   if (options.sourceMap) {
-    if (scriptMap && templateMap) {
-      // if the template is inlined into the main module (indicated by the presence
-      // of templateMap), we need to concatenate the two source maps.
-
-      const gen = fromMap(
-        // version property of result.map is declared as string
-        // but actually it is `3`
-        scriptMap as Omit<RawSourceMap, 'version'> as TraceEncodedSourceMap,
-      )
-      const tracer = new TraceMap(
-        // same above
-        templateMap as Omit<RawSourceMap, 'version'> as TraceEncodedSourceMap,
-      )
-      const offset = (scriptCode.match(/\r?\n/g)?.length ?? 0) + 1
-      eachMapping(tracer, (m) => {
-        if (m.source == null) return
-        addMapping(gen, {
-          source: m.source,
-          original: { line: m.originalLine, column: m.originalColumn },
-          generated: {
-            line: m.generatedLine + offset,
-            column: m.generatedColumn,
-          },
-        })
-      })
-
-      // same above
-      resolvedMap = toEncodedMap(gen) as Omit<
-        GenEncodedSourceMap,
-        'version'
-      > as RawSourceMap
-      // if this is a template only update, we will be reusing a cached version
-      // of the main module compile result, which has outdated sourcesContent.
-      resolvedMap.sourcesContent = templateMap.sourcesContent
-    } else {
-      // if one of `scriptMap` and `templateMap` is empty, use the other one
-      resolvedMap = scriptMap ?? templateMap
-    }
+    // if the template is inlined into the main module (indicated by the
+    // presence of templateMap), its map is offset by the lines of the script
+    // code, which has no map without a script.
+    resolvedMap = templateMap
+      ? concatSourceMaps([
+          { code: scriptCode, map: scriptMap },
+          { code: templateCode, map: templateMap },
+        ])
+      : scriptMap
   }
 
   // 构造组件默认导出语句
@@ -269,7 +312,7 @@ export async function transformMain(
     resolvedMap = resolvedMap ? (map as any) : resolvedMap
   }
 
-  return {
+  const result = {
     code: resolvedCode,
     map: resolvedMap || {
       mappings: '',
@@ -280,6 +323,53 @@ export async function transformMain(
       },
     },
   }
+
+  if (cacheKey) {
+    const script = getResolvedScript(descriptor, ssr)
+    writeCache(
+      cacheKey,
+      {
+        result,
+        deps: hashDeps(script?.deps),
+        warnings: cacheWarnings,
+        script: script && toSerializableScript(script),
+      },
+      options,
+    )
+  }
+
+  return result
+}
+
+/**
+ * Blocks with src imports are normally linked to their owner descriptor while
+ * generating the main module code. When the main module is restored from the
+ * persistent cache, the links need to be re-established separately.
+ */
+async function linkSrcBlocks(
+  descriptor: SFCDescriptor,
+  pluginContext: PluginContext,
+) {
+  if (descriptor.script?.src) {
+    await linkSrcToDescriptor(descriptor.script.src, descriptor, pluginContext)
+  }
+  if (descriptor.template?.src) {
+    await linkSrcToDescriptor(
+      descriptor.template.src,
+      descriptor,
+      pluginContext,
+    )
+  }
+  for (const style of descriptor.styles) {
+    if (style.src) {
+      await linkSrcToDescriptor(style.src, descriptor, pluginContext)
+    }
+  }
+  for (const block of descriptor.customBlocks) {
+    if (block.src) {
+      await linkSrcToDescriptor(block.src, descriptor, pluginContext)
+    }
+  }
 }
 
 // 根据 <template> 是否是内联、是否使用语言预处理器（如 Pug）、是否使用 src 外部引入，
@@ -302,7 +392,13 @@ async function genTemplateCode(
   // 如果 <template> 没有使用预处理器（如 pug），且不是 src 外部引入；
   // 直接调用 transformTemplateInMain() 编译 template 并内联到主模块中；
   // 避免另起一个模块，有利于优化加载性能（少发一个请求）。
-  if ((!template.lang || template.lang === 'html') && !template.src) {
+  // 通过 `template.preprocessors` 注册的预处理器由插件自己运行，同样内联。
+  if (
+    (!template.lang ||
+      template.lang === 'html' ||
+      getTemplatePreprocessor(template.lang, options)) &&
+    !template.src
+  ) {
     return transformTemplateInMain(
       template.content,
       descriptor,
@@ -312,24 +408,16 @@ async function genTemplateCode(
     )
   } else {
     // 若使用 src="./tpl.html"，需要建立文件与 .vue 的映射关系（为 transform 阶段查回原 descriptor）；
+    // 模板的编译结果依赖 script 的 bindings，因此按引用它的 SFC 分别编译（`src=<id>`）。
     if (template.src) {
-      await linkSrcToDescriptor(
-        template.src,
-        descriptor,
-        pluginContext,
-        hasScoped,
-      )
+      await linkSrcToDescriptor(template.src, descriptor, pluginContext)
     }
 
     // 构造 template 虚拟模块路径
     // 生成类似下面的路径：
     // MyComp.vue?vue&type=template&scoped=xxxx&lang=js
     const src = template.src || descriptor.filename
-    const srcQuery = template.src
-      ? hasScoped
-        ? `&src=${descriptor.id}`
-        : '&src=true'
-      : ''
+    const srcQuery = template.src ? `&src=${descriptor.id}` : ''
     const scopedQuery = hasScoped ? `&scoped=${descriptor.id}` : ``
     const attrsQuery = attrsToQuery(template.attrs, 'js', true)
     const query = `?vue&type=template${srcQuery}${scopedQuery}${attrsQuery}`
@@ -368,7 +456,7 @@ async function genScriptCode(
 
   // 解析有效的 script block
   // 该函数负责解析 <script> 和 <script setup>，并合并成一个统一的 script block。
-  const script = resolveScript(descriptor, options, ssr)
+  const script = resolveScript(descriptor, options, ssr, pluginContext)
   if (script) {
     // If the script is js/ts and has no external src, it can be directly placed
     // in the main module.
@@ -399,17 +487,21 @@ async function genScriptCode(
           scriptIdentifier,
           [...defaultPlugins, ...userPlugins],
         )
+        // the rewrite only changes columns within lines
+        map =
+          script.map &&
+          shiftEditedColumns(script.map, script.content, scriptCode)
       } else {
         // 若是 Vue 3.3+，直接使用内容：
         scriptCode = script.content
+        map = script.map
       }
-      map = script.map
     } else {
       // 不能内联时，使用虚拟模块导入
       // 如果使用 src="./logic.js"，建立 .vue 与该文件的映射；
       // 用于后续在子模块中反查所属 .vue 文件。
       if (script.src) {
-        await linkSrcToDescriptor(script.src, descriptor, pluginContext, false)
+        await linkSrcToDescriptor(script.src, descriptor, pluginContext)
       }
       const src = script.src || descriptor.filename
       const langFallback = (script.src && path.extname(src).slice(1)) || 'js'
@@ -433,6 +525,7 @@ async function genStyleCode(
   pluginContext: PluginContext, // Vite 插件上下文
   asCustomElement: boolean, // 是否是自定义元素模式
   attachedProps: [string, string][], // 要注入到组件对象上的属性（附加）
+  styleRequests: string[], // 收集生成的样式模块请求（SSR 模块注册时使用）
 ) {
   // tylesCode: 保存最终生成的 import 语句；
   // cssModulesMap: 记录 CSS Modules 的变量映射。
@@ -444,12 +537,7 @@ async function genStyleCode(
       const style = descriptor.styles[i]
       if (style.src) {
         // 若是 <style src="...">，建立映射
-        await linkSrcToDescriptor(
-          style.src,
-          descriptor,
-          pluginContext,
-          style.scoped,
-        )
+        await linkSrcToDescriptor(style.src, descriptor, pluginContext)
       }
       // 构造样式路径和属性 query 字符串（如 &lang=scss&scoped）。
       const src = style.src || descriptor.filename
@@ -481,12 +569,13 @@ async function genStyleCode(
             `<style module> is not supported in custom elements mode.`,
           )
         }
-        const [importCode, nameMap] = genCSSModulesCode(
+        const [importCode, nameMap, moduleRequest] = genCSSModulesCode(
           i,
           styleRequest,
           style.module,
         )
         stylesCode += importCode
+        styleRequests.push(moduleRequest)
         Object.assign((cssModulesMap ||= {}), nameMap)
       } else {
         // 如果是自定义元素，需要拿到样式对象（所以起别名 _style_i）；
@@ -498,8 +587,8 @@ async function genStyleCode(
         } else {
           stylesCode += `\nimport ${JSON.stringify(styleRequest)}`
         }
+        styleRequests.push(styleRequest)
       }
-      // TODO SSR critical CSS collection
     }
     if (asCustomElement) {
       // 在自定义元素中，把所有 _style_i 组成数组注入到组件属性上，用于运行时注册样式。
@@ -527,7 +616,11 @@ function genCSSModulesCode(
   index: number, // 第几个 <style> 标签（从 0 开始）
   request: string, // 原始样式文件请求路径（带 query 参数）
   moduleName: string | boolean, // 模块名称，true 表示默认用 $style
-): [importCode: string, nameMap: Record<string, string>] {
+): [
+  importCode: string,
+  nameMap: Record<string, string>,
+  moduleRequest: string,
+] {
   // 样式模块的变量名（如：style0、style1），用于后面 import。
   const styleVar = `style${index}`
 
@@ -540,10 +633,12 @@ function genCSSModulesCode(
   const moduleRequest = request.replace(/\.(\w+)$/, '.module.$1')
 
   // import 代码行：动态导入 CSS Module；
-  // nameMap：提供变量注入到组件内部的键值对（比如注入 {$style: style0}）。
+  // nameMap：提供变量注入到组件内部的键值对（比如注入 {$style: style0}）；
+  // moduleRequest：样式模块的请求（SSR 模块注册时使用）。
   return [
     `\nimport ${styleVar} from ${JSON.stringify(moduleRequest)}`,
     { [exposedName]: styleVar },
+    moduleRequest,
   ]
 
   // 示例
@@ -562,7 +657,8 @@ function genCSSModulesCode(
 
   // [
   //   '\nimport style0 from "MyComp.vue?vue&type=style&index=0&lang.module.css"',
-  //   { $style: 'style0' }
+  //   { $style: 'style0' },
+  //   'MyComp.vue?vue&type=style&index=0&lang.module.css'
   // ]
 
   // 这个结果会被插入组件的模块代码中：
@@ -579,7 +675,9 @@ async function genCustomBlockCode(
   // descriptor: 当前 .vue 文件的 SFC 描述器；
   // pluginContext: 当前插件上下文，提供 resolve() 等功能。
   descriptor: SFCDescriptor,
+  options: ResolvedOptions,
   pluginContext: PluginContext,
+  hmr: boolean,
 ) {
   // 应用场景：什么是 <customBlock>？
   // Vue SFC 支持以下用法：
@@ -592,17 +690,28 @@ async function genCustomBlockCode(
   // 单元测试挂载
   // 或者运行时注入行为
   let code = ''
+  const requests: string[] = []
 
   // 逐个处理 .vue 文件中的 <custom-block>，每个 block 都会被转换为一个虚拟模块。
   for (let index = 0; index < descriptor.customBlocks.length; index++) {
     const block = descriptor.customBlocks[index]
+    // 声明为 'strip' 的块不生成 import
+    if (isStrippedBlock(block.type, options)) {
+      continue
+    }
     // 若 block 有 src 引入，建立映射关系
     if (block.src) {
-      await linkSrcToDescriptor(block.src, descriptor, pluginContext, false)
+      await linkSrcToDescriptor(block.src, descriptor, pluginContext)
     }
     const src = block.src || descriptor.filename
-    const attrsQuery = attrsToQuery(block.attrs, block.type)
-    const srcQuery = block.src ? `&src=true` : ``
+    // blocks handled by the `customBlocks` option are transformed into JS,
+    // keep other plugins (e.g. vite:json) from transforming them by lang
+    const attrsQuery = getCustomBlockTransform(block.type, options)
+      ? attrsToQuery(block.attrs, 'js', true)
+      : attrsToQuery(block.attrs, block.type)
+    // a src file can be shared by several SFCs, the request is specific to
+    // this one so that the block is resolved against its descriptor
+    const srcQuery = block.src ? `&src=${descriptor.id}` : ``
     const query = `?vue&type=${block.type}&index=${index}${srcQuery}${attrsQuery}`
     const request = JSON.stringify(src + query)
 
@@ -611,6 +720,39 @@ async function genCustomBlockCode(
     // 这样 custom block 可以动态注入数据到组件。
     code += `import block${index} from ${request}\n`
     code += `if (typeof block${index} === 'function') block${index}(_sfc_main)\n`
+    // accepted deps are resolved as urls relative to the importer, unlike
+    // imports which also accept file system paths
+    requests.push(
+      block.src
+        ? request
+        : JSON.stringify(`./${path.basename(descriptor.filename)}${query}`),
+    )
+  }
+
+  // 按块热更新：自定义块变化时只重新加载对应的子模块，而不是整个组件模块。
+  // 若块模块导出了 `hotUpdate(component)`，就把更新直接应用到当前组件上并重新渲染（保留组件状态）；
+  // 否则重新执行默认导出并 reload 组件。
+  if (hmr && requests.length) {
+    code += [
+      `import.meta.hot.accept([${requests.join(', ')}], (mods) => {`,
+      `  const component = import.meta.hot.data.component`,
+      `  let needReload = false`,
+      `  for (const mod of mods) {`,
+      `    if (!mod) continue`,
+      `    if (typeof mod.hotUpdate === 'function') {`,
+      `      if (mod.hotUpdate(component) === false) needReload = true`,
+      `    } else {`,
+      `      if (typeof mod.default === 'function') mod.default(component)`,
+      `      needReload = true`,
+      `    }`,
+      `  }`,
+      `  if (needReload) {`,
+      `    __VUE_HMR_RUNTIME__.reload(component.__hmrId, component)`,
+      `  } else {`,
+      `    __VUE_HMR_RUNTIME__.rerender(component.__hmrId)`,
+      `  }`,
+      `})\n`,
+    ].join('\n')
   }
 
   // 若 SFC 文件中有：
@@ -646,7 +788,6 @@ async function linkSrcToDescriptor(
   src: string, // 被引用的资源路径
   descriptor: SFCDescriptor, // 当前 .vue 文件的 descriptor
   pluginContext: PluginContext, // Vite 插件上下文，用于 resolve 模块
-  scoped?: boolean, // 该 block 是否使用 scoped（只对 style 有意义）
 ) {
   // 使用 Vite 的 resolve() 方法解析 src 路径；
   // descriptor.filename 是当前 .vue 文件路径，它作为 src 的相对路径基础；
@@ -658,8 +799,8 @@ async function linkSrcToDescriptor(
   // version query.
   // 解决 issue #1812：srcFile 可能是 some-file.css?import&v=123 这样带 query 的路径；
   // 所以用 .replace(/\?.*$/, '') 去掉查询参数，只保留纯路径；
-  // 调用 setSrcDescriptor() 把这个外部文件与 descriptor 绑定起来，同时标记是否是 scoped。
-  setSrcDescriptor(srcFile.replace(/\?.*$/, ''), descriptor, scoped)
+  // 调用 setSrcDescriptor() 把这个外部文件与 descriptor 绑定起来（同一文件可以有多个 SFC 引用）。
+  setSrcDescriptor(srcFile.replace(/\?.*$/, ''), descriptor)
 }
 
 // these are built-in query parameters so should be ignored
@@ -0,0 +1,273 @@
+import path from 'node:path'
+import type { PluginContext } from 'rollup'
+import type {
+  SFCDescriptor,
+  SFCScriptBlock,
+  SFCScriptCompileOptions,
+} from 'vue/compiler-sfc'
+import type {
+  CallExpression,
+  Node,
+  ObjectMethod,
+  ObjectProperty,
+  Program,
+  TSPropertySignature,
+  TSTypeLiteral,
+} from '@babel/types'
+import { normalizePath } from 'vite'
+import type { ResolvedOptions } from '.'
+
+// 组件清单（manifest）：在构建结束时输出每个已编译 SFC 的描述信息，
+// 供文档站点、包体积分析等外部工具使用。
+
+export interface ComponentManifestStyle {
+  index: number
+  lang: string
+  scoped: boolean
+  module: string | boolean
+  src?: string
+}
+
+export interface ComponentManifestEntry {
+  /**
+   * path of the SFC relative to the project root
+   */
+  file: string
+  /**
+   * descriptor id, used for HMR and as the base of the scope id
+   */
+  id: string
+  /**
+   * attribute added to elements when the component has scoped styles
+   */
+  scopeId: string | null
+  setup: boolean
+  lang: string
+  props: string[]
+  emits: string[]
+  styles: ComponentManifestStyle[]
+  customBlocks: string[]
+  /**
+   * files dynamically imported by the component's script, relative to root
+   */
+  asyncDeps: string[]
+}
+
+type ParserPlugin = NonNullable<
+  SFCScriptCompileOptions['babelParserPlugins']
+>[number]
+
+export type ComponentManifest = Record<string, ComponentManifestEntry>
+
+export const DEFAULT_MANIFEST_FILENAME = 'vue-manifest.json'
+
+export function resolveManifestFileName(
+  manifest: boolean | string | undefined,
+): string | undefined {
+  if (!manifest) return
+  return typeof manifest === 'string' ? manifest : DEFAULT_MANIFEST_FILENAME
+}
+
+export async function createManifestEntry(
+  descriptor: SFCDescriptor,
+  resolvedScript: SFCScriptBlock | null | undefined,
+  options: ResolvedOptions,
+  pluginContext: PluginContext,
+): Promise<ComponentManifestEntry> {
+  const { filename } = descriptor
+  const analyzed = analyzeScript(descriptor, options)
+
+  const asyncDeps: string[] = []
+  for (const specifier of analyzed.dynamicImports) {
+    const resolved = await pluginContext.resolve(specifier, filename)
+    const file = resolved ? resolved.id.replace(/\?.*$/, '') : specifier
+    asyncDeps.push(
+      path.isAbsolute(file)
+        ? normalizePath(path.relative(options.root, file))
+        : file,
+    )
+  }
+
+  const bindings = resolvedScript?.bindings || {}
+  return {
+    file: normalizePath(path.relative(options.root, filename)),
+    id: descriptor.id,
+    scopeId: descriptor.styles.some((s) => s.scoped)
+      ? `data-v-${descriptor.id}`
+      : null,
+    setup: !!descriptor.scriptSetup,
+    lang: descriptor.scriptSetup?.lang || descriptor.script?.lang || 'js',
+    props: Object.keys(bindings).filter((key) => bindings[key] === 'props'),
+    emits: analyzed.emits,
+    styles: descriptor.styles.map((style, index) => ({
+      index,
+      lang: style.lang || 'css',
+      scoped: !!style.scoped,
+      module: style.module ?? false,
+      ...(style.src ? { src: style.src } : {}),
+    })),
+    customBlocks: descriptor.customBlocks.map((block) => block.type),
+    asyncDeps,
+  }
+}
+
+export function generateManifest(
+  entries: Map<string, ComponentManifestEntry>,
+): ComponentManifest {
+  const manifest: ComponentManifest = {}
+  for (const entry of [...entries.values()].sort((a, b) =>
+    a.file.localeCompare(b.file),
+  )) {
+    manifest[entry.file] = entry
+  }
+  return manifest
+}
+
+/**
+ * Collect emits and dynamic imports from the script blocks. The raw blocks
+ * are parsed instead of using the ASTs from `compileScript`, since those are
+ * not available for scripts restored from the persistent cache or compiled
+ * in a worker thread.
+ */
+function analyzeScript(
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+): { emits: string[]; dynamicImports: string[] } {
+  const emits = new Set<string>()
+  const dynamicImports = new Set<string>()
+
+  for (const block of [descriptor.script, descriptor.scriptSetup]) {
+    if (!block || block.src) continue
+
+    let program: Program
+    try {
+      program = options.compiler.babelParse(block.content, {
+        sourceType: 'module',
+        plugins: resolveParserPlugins(block.lang, options),
+      }).program
+    } catch (e) {
+      // not parsable as js/ts (e.g. other script languages)
+      continue
+    }
+
+    options.compiler.walk(program, {
+      enter(node: Node, parent: Node | null) {
+        const source =
+          node.type === 'ImportExpression'
+            ? node.source
+            : node.type === 'CallExpression' && node.callee.type === 'Import'
+            ? node.arguments[0]
+            : undefined
+        if (source) {
+          if (source.type === 'StringLiteral') {
+            dynamicImports.add(source.value)
+          }
+        } else if (block.setup && isCallOf(node, 'defineEmits')) {
+          extractSetupEmits(node).forEach((e) => emits.add(e))
+        } else if (block.setup && isCallOf(node, 'defineModel')) {
+          const name = node.arguments[0]
+          emits.add(
+            `update:${
+              name?.type === 'StringLiteral' ? name.value : 'modelValue'
+            }`,
+          )
+        } else if (
+          !block.setup &&
+          node.type === 'ObjectExpression' &&
+          (parent?.type === 'ExportDefaultDeclaration' ||
+            (parent && isCallOf(parent, 'defineComponent')))
+        ) {
+          const prop = node.properties.find(
+            (p): p is ObjectProperty =>
+              p.type === 'ObjectProperty' && getKey(p) === 'emits',
+          )
+          if (prop) {
+            extractRuntimeEmits(prop.value).forEach((e) => emits.add(e))
+          }
+        }
+      },
+    })
+  }
+
+  return { emits: [...emits], dynamicImports: [...dynamicImports] }
+}
+
+function resolveParserPlugins(
+  lang: string | undefined,
+  options: ResolvedOptions,
+): ParserPlugin[] {
+  const plugins: ParserPlugin[] = []
+  if (lang === 'ts' || lang === 'tsx') plugins.push('typescript')
+  if (lang === 'jsx' || lang === 'tsx') plugins.push('jsx')
+  return [...plugins, ...(options.script?.babelParserPlugins || [])]
+}
+
+function isCallOf(node: Node, name: string): node is CallExpression {
+  return (
+    node.type === 'CallExpression' &&
+    node.callee.type === 'Identifier' &&
+    node.callee.name === name
+  )
+}
+
+function getKey(
+  node: ObjectProperty | ObjectMethod | TSPropertySignature,
+): string | undefined {
+  if (node.computed) return
+  // other keys (e.g. numeric literals or `#private` names) are not event names
+  if (node.key.type === 'Identifier') return node.key.name
+  if (node.key.type === 'StringLiteral') return node.key.value
+}
+
+function extractSetupEmits(node: CallExpression): string[] {
+  const typeArg = node.typeParameters?.params[0]
+  if (typeArg) {
+    return typeArg.type === 'TSTypeLiteral' ? extractTypeEmits(typeArg) : []
+  }
+  const arg = node.arguments[0]
+  return arg ? extractRuntimeEmits(arg) : []
+}
+
+// defineEmits(['change']) / emits: { change: null }
+function extractRuntimeEmits(node: Node): string[] {
+  if (node.type === 'ArrayExpression') {
+    return node.elements.flatMap((e) =>
+      e?.type === 'StringLiteral' ? [e.value] : [],
+    )
+  }
+  if (node.type === 'ObjectExpression') {
+    return node.properties.flatMap((p) => {
+      const key = p.type === 'SpreadElement' ? undefined : getKey(p)
+      return key ? [key] : []
+    })
+  }
+  return []
+}
+
+// defineEmits<{ (e: 'change', id: number): void }>()
+// defineEmits<{ change: [id: number] }>()
+function extractTypeEmits(node: TSTypeLiteral): string[] {
+  const emits: string[] = []
+  for (const member of node.members) {
+    if (member.type === 'TSCallSignatureDeclaration') {
+      const param = member.parameters[0]
+      const type =
+        param?.typeAnnotation?.type === 'TSTypeAnnotation'
+          ? param.typeAnnotation.typeAnnotation
+          : undefined
+      const literals = type?.type === 'TSUnionType' ? type.types : [type]
+      for (const literal of literals) {
+        if (
+          literal?.type === 'TSLiteralType' &&
+          literal.literal.type === 'StringLiteral'
+        ) {
+          emits.push(literal.literal.value)
+        }
+      }
+    } else if (member.type === 'TSPropertySignature') {
+      const key = getKey(member)
+      if (key) emits.push(key)
+    }
+  }
+  return emits
+}
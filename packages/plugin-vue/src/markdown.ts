@@ -0,0 +1,45 @@
+import { createFilter } from 'vite'
+import type { Options } from '.'
+
+// Markdown 组件：匹配 `markdown` 过滤器的文件在解析时先被转换为 SFC 源码，
+// 之后与 .vue 文件走完全相同的流程（transformMain、子模块、HMR、scoped 样式）。
+// - 渲染后的 HTML 作为 <template>，<code> 元素加上 v-pre 以原样显示 `{{ }}`
+// - 顶层的 <script> / <style> 块原样保留为 SFC 的块
+// - frontmatter 作为 `frontmatter` 常量、```js setup / ```ts setup 代码块的内容
+//   合并到 <script setup> 中
+// 转换在 utils/markdown.ts 中实现，它会被 worker 线程加载，因此不能依赖 vite。
+
+export interface MarkdownRenderContext {
+  filename: string
+  /**
+   * the parsed frontmatter, `undefined` when there is none
+   */
+  frontmatter: Record<string, unknown> | undefined
+}
+
+export interface MarkdownOptions {
+  /**
+   * Files converted into components.
+   *
+   * @default /\.md$/
+   */
+  include?: string | RegExp | (string | RegExp)[]
+  exclude?: string | RegExp | (string | RegExp)[]
+  /**
+   * Render the markdown (without frontmatter, `<script>` and `<style>`
+   * blocks) into HTML. Defaults to `markdown-it` with HTML enabled, which has
+   * to be installed in the project.
+   */
+  render?: (markdown: string, context: MarkdownRenderContext) => string
+}
+
+export function resolveMarkdownFilter(
+  markdown: Options['markdown'],
+): ((id: unknown) => boolean) | undefined {
+  if (!markdown) {
+    return
+  }
+  const { include = /\.md$/, exclude }: MarkdownOptions =
+    markdown === true ? {} : markdown
+  return createFilter(include, exclude)
+}
@@ -0,0 +1,272 @@
+import os from 'node:os'
+import { Worker } from 'node:worker_threads'
+import _debug from 'debug'
+import type { PluginContext } from 'rollup'
+import type {
+  CompilerError,
+  SFCDescriptor,
+  SFCScriptBlock,
+  SFCTemplateCompileResults,
+} from 'vue/compiler-sfc'
+import {
+  getResolvedScript,
+  registerTypeDeps,
+  setResolvedScript,
+} from './script'
+import { setPrecompiledTemplate } from './template'
+import { reportScriptWarning } from './utils/error'
+import type { ResolvedOptions } from '.'
+
+// 生产构建时，把 compileScript / compileTemplate 分发到 worker 线程池中执行，
+// descriptor 缓存与 typeDepToSFCMap 等状态仍然只在主线程中维护。
+
+const debug = _debug('vite:vue:parallel')
+
+export interface WorkerData {
+  compilerPath: string
+  options: Omit<ResolvedOptions, 'compiler' | 'devServer' | 'workerPool'>
+}
+
+export interface CompileJob {
+  id: number
+  filename: string
+  source: string
+  descriptorId: string
+  ssr: boolean
+}
+
+export interface CompileJobResult {
+  id: number
+  error?: string
+  script?: SFCScriptBlock | null
+  /**
+   * warnings logged by compiler-sfc while compiling the script
+   */
+  scriptWarnings?: string[]
+  template?: {
+    source: string
+    result: SFCTemplateCompileResults
+  }
+}
+
+export interface WorkerPool {
+  run(job: Omit<CompileJob, 'id'>): Promise<CompileJobResult>
+  terminate(): Promise<void>
+  /**
+   * Set when a worker fails to load (e.g. the worker file can't be found). No
+   * more workers are spawned and jobs are rejected with this error.
+   */
+  loadError?: Error
+}
+
+// posted by a worker once loaded, errors before that are load failures
+export const WORKER_READY = 'ready'
+
+const warnedPools = new WeakSet<WorkerPool>()
+
+export function resolvePoolSize(parallel: boolean | number): number {
+  if (typeof parallel === 'number') {
+    return Math.max(1, Math.floor(parallel))
+  }
+  return Math.max(1, os.cpus().length - 1)
+}
+
+/**
+ * Only plain data can be sent to a worker thread. Options containing
+ * functions (e.g. `template.compilerOptions.isCustomElement` or `script.fs`)
+ * make the build fall back to compiling on the main thread.
+ */
+export function isSerializable(value: unknown): boolean {
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return false
+  }
+  if (Array.isArray(value)) {
+    return value.every(isSerializable)
+  }
+  if (value && typeof value === 'object' && !(value instanceof RegExp)) {
+    return Object.values(value).every(isSerializable)
+  }
+  return true
+}
+
+/**
+ * `file` is the built worker entry (`worker.mjs`), resolved by the caller since
+ * this module may be bundled into a shared chunk.
+ */
+export function createWorkerPool(
+  file: URL,
+  size: number,
+  data: WorkerData,
+): WorkerPool {
+  const workers: Worker[] = []
+  const idle: Worker[] = []
+  const queue: CompileJob[] = []
+  const pending = new Map<
+    number,
+    {
+      resolve: (result: CompileJobResult) => void
+      reject: (error: Error) => void
+      worker?: Worker
+    }
+  >()
+  let nextId = 0
+
+  function spawn() {
+    const worker = new Worker(file, { workerData: data })
+    let ready = false
+    // never keep the process alive because of an idle worker
+    worker.unref()
+    worker.on('message', (result: CompileJobResult | typeof WORKER_READY) => {
+      if (result === WORKER_READY) {
+        ready = true
+        return
+      }
+      const job = pending.get(result.id)
+      pending.delete(result.id)
+      job?.resolve(result)
+      idle.push(worker)
+      flush()
+    })
+    worker.on('error', (error) => {
+      workers.splice(workers.indexOf(worker), 1)
+      if (!ready) {
+        // the next worker would fail to load as well
+        pool.loadError ||= error
+      } else {
+        debug(`worker crashed: ${error.message}`)
+      }
+      for (const [id, job] of pending) {
+        if (pool.loadError || job.worker === worker) {
+          pending.delete(id)
+          job.reject(pool.loadError || error)
+        }
+      }
+      flush()
+    })
+    workers.push(worker)
+    idle.push(worker)
+  }
+
+  function flush() {
+    if (pool.loadError) {
+      queue.length = 0
+      return
+    }
+    while (queue.length) {
+      if (!idle.length) {
+        if (workers.length >= size) return
+        spawn()
+      }
+      const worker = idle.pop()!
+      const job = queue.shift()!
+      pending.get(job.id)!.worker = worker
+      worker.postMessage(job)
+    }
+  }
+
+  const pool: WorkerPool = {
+    run(job) {
+      if (pool.loadError) {
+        return Promise.reject(pool.loadError)
+      }
+      const id = nextId++
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject })
+        queue.push({ ...job, id })
+        flush()
+      })
+    },
+    async terminate() {
+      queue.length = 0
+      for (const job of pending.values()) {
+        job.reject(new Error('worker pool terminated'))
+      }
+      pending.clear()
+      idle.length = 0
+      await Promise.all(workers.splice(0).map((worker) => worker.terminate()))
+    },
+  }
+  return pool
+}
+
+/**
+ * Compile the script and inlined template of an SFC in a worker thread, and
+ * store the results so that the regular (synchronous) compile steps on the
+ * main thread pick them up instead of compiling again. Failures are ignored:
+ * the main thread will simply compile the component itself. Workers failing
+ * to load are reported once.
+ */
+export async function compileInWorker(
+  pool: WorkerPool,
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+  pluginContext: PluginContext,
+  ssr: boolean,
+): Promise<void> {
+  if (getResolvedScript(descriptor, ssr)) {
+    return
+  }
+
+  let result: CompileJobResult
+  try {
+    result = await pool.run({
+      filename: descriptor.filename,
+      source: descriptor.source,
+      descriptorId: descriptor.id,
+      ssr,
+    })
+  } catch (e: any) {
+    if (e === pool.loadError) {
+      if (!warnedPools.has(pool)) {
+        warnedPools.add(pool)
+        pluginContext.warn(
+          `failed to start compile workers, compiling on the main thread: ${e.message}`,
+        )
+      }
+    } else {
+      debug(`failed to compile ${descriptor.filename}: ${e.message}`)
+    }
+    return
+  }
+  if (result.error) {
+    // compile again on the main thread to report the error properly
+    debug(`failed to compile ${descriptor.filename}: ${result.error}`)
+    return
+  }
+
+  if (result.script) {
+    setResolvedScript(descriptor, result.script, ssr)
+    for (const warning of [
+      ...(result.scriptWarnings || []),
+      ...(result.script.warnings || []),
+    ]) {
+      reportScriptWarning(pluginContext, descriptor, warning, options)
+    }
+    if (!options.isProduction && result.script.deps) {
+      registerTypeDeps(descriptor.filename, result.script.deps)
+    }
+  }
+  if (result.template) {
+    setPrecompiledTemplate(
+      descriptor,
+      result.template.source,
+      result.template.result,
+      ssr,
+    )
+  }
+}
+
+export function serializeCompilerError(
+  error: CompilerError | SyntaxError | string,
+): CompilerError | string {
+  if (typeof error === 'string') {
+    return error
+  }
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    code: 'code' in error ? error.code : undefined,
+    loc: 'loc' in error ? error.loc : undefined,
+  } as CompilerError
+}
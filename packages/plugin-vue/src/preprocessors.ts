@@ -0,0 +1,343 @@
+import type {
+  SFCDescriptor,
+  SFCScriptBlock,
+  SFCTemplateBlock,
+} from 'vue/compiler-sfc'
+import type { ExistingRawSourceMap } from 'rollup'
+import type { RawSourceMap } from 'source-map-js'
+import type { EncodedSourceMap as TraceEncodedSourceMap } from '@jridgewell/trace-mapping'
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping'
+import { remapSourceMap } from './utils/sourceMap'
+import { getLineStarts, getLocation, getOffset } from './utils/location'
+import type { ResolvedOptions } from '.'
+
+// 脚本与模板的预处理器。
+//
+// <script> 的预处理器：按 `lang` 把其它语言（coffee、civet 等）的脚本块先转换为 JS，
+// 再交给 compileScript 处理，这样 <script setup> 中的宏分析也能正常工作。
+// compileScript 基于整个 SFC 源码的偏移量工作，因此这里构造一个把脚本块内容替换为
+// 预处理结果的 descriptor，编译后再把 source map 映射回原始的 .vue 文件。
+
+export interface ScriptPreprocessContext {
+  filename: string
+  /**
+   * the block's `lang` attribute
+   */
+  lang: string
+  /**
+   * whether the block is `<script setup>`
+   */
+  setup: boolean
+  block: SFCScriptBlock
+  descriptor: SFCDescriptor
+}
+
+export interface ScriptPreprocessResult {
+  /**
+   * JavaScript code
+   */
+  code: string
+  /**
+   * source map from the block content to `code`
+   */
+  map?: ExistingRawSourceMap
+}
+
+export type ScriptPreprocessor = (
+  code: string,
+  context: ScriptPreprocessContext,
+) => ScriptPreprocessResult
+
+export function getScriptPreprocessor(
+  lang: string | undefined,
+  options: ResolvedOptions,
+): ScriptPreprocessor | undefined {
+  return lang ? options.script?.preprocessors?.[lang] : undefined
+}
+
+interface PreprocessedBlock {
+  /**
+   * offset of the block content in the original source
+   */
+  originalStart: number
+  originalEnd: number
+  /**
+   * offset of the block content in the preprocessed source
+   */
+  start: number
+  end: number
+  code: string
+  map: TraceMap | undefined
+}
+
+export interface PreprocessedScript {
+  /**
+   * copy of the descriptor with the script blocks replaced by their
+   * preprocessed code, to be passed to `compileScript()`
+   */
+  descriptor: SFCDescriptor
+  blocks: PreprocessedBlock[]
+}
+
+/**
+ * Run the preprocessors of the script blocks. Returns `undefined` when no
+ * block has a preprocessor for its `lang`.
+ */
+export function preprocessScript(
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+): PreprocessedScript | undefined {
+  const scripts = [descriptor.script, descriptor.scriptSetup]
+    .filter(
+      (block): block is SFCScriptBlock =>
+        !!block && !block.src && !!getScriptPreprocessor(block.lang, options),
+    )
+    .sort((a, b) => a.loc.start.offset - b.loc.start.offset)
+  if (!scripts.length) {
+    return
+  }
+
+  const blocks: PreprocessedBlock[] = []
+  let source = ''
+  let last = 0
+  for (const block of scripts) {
+    const { code, map } = getScriptPreprocessor(block.lang, options)!(
+      block.content,
+      {
+        filename: descriptor.filename,
+        lang: block.lang!,
+        setup: !!block.setup,
+        block,
+        descriptor,
+      },
+    )
+    source += descriptor.source.slice(last, block.loc.start.offset)
+    blocks.push({
+      originalStart: block.loc.start.offset,
+      originalEnd: block.loc.end.offset,
+      start: source.length,
+      end: source.length + code.length,
+      code,
+      map: map && new TraceMap(map as TraceEncodedSourceMap),
+    })
+    source += code
+    last = block.loc.end.offset
+  }
+  source += descriptor.source.slice(last)
+
+  const lines = getLineStarts(source)
+  const replace = (block: SFCScriptBlock | null) => {
+    const preprocessed =
+      block && blocks[scripts.indexOf(block as SFCScriptBlock)]
+    if (!block || !preprocessed) return block
+    return {
+      ...block,
+      content: preprocessed.code,
+      // compileScript only handles JS and TS
+      lang: 'js',
+      attrs: { ...block.attrs, lang: 'js' },
+      loc: {
+        start: getLocation(lines, preprocessed.start),
+        end: getLocation(lines, preprocessed.end),
+        source: preprocessed.code,
+      },
+    }
+  }
+  return {
+    descriptor: {
+      ...descriptor,
+      source,
+      script: replace(descriptor.script),
+      scriptSetup: replace(descriptor.scriptSetup),
+    },
+    blocks,
+  }
+}
+
+/**
+ * Map the output of `compileScript()` for a preprocessed descriptor back to
+ * the original SFC. Code without a mapping in a preprocessor's source map is
+ * left unmapped.
+ */
+export function restorePreprocessedScript(
+  resolved: SFCScriptBlock,
+  descriptor: SFCDescriptor,
+  { descriptor: preprocessed, blocks }: PreprocessedScript,
+): SFCScriptBlock {
+  if (!resolved.map) {
+    return resolved
+  }
+
+  const preprocessedLines = getLineStarts(preprocessed.source)
+  const blockLines = blocks.map((block) => getLineStarts(block.code))
+  const originalBlockLines = blocks.map((block) =>
+    getLineStarts(
+      descriptor.source.slice(block.originalStart, block.originalEnd),
+    ),
+  )
+
+  return {
+    ...resolved,
+    map: remapSourceMap(
+      resolved.map,
+      descriptor.filename,
+      descriptor.source,
+      (line, column) => {
+        const offset = getOffset(preprocessedLines, line, column)
+        let originalOffset = offset
+        for (let i = 0; i < blocks.length; i++) {
+          const block = blocks[i]
+          if (offset < block.start) break
+          if (offset < block.end) {
+            return (
+              block.map &&
+              traceOffset(
+                block.map,
+                blockLines[i],
+                offset - block.start,
+                originalBlockLines[i],
+                block.originalStart,
+              )
+            )
+          }
+          // shift by the difference of length of the blocks before
+          originalOffset +=
+            block.originalEnd - block.originalStart - (block.end - block.start)
+        }
+        return originalOffset
+      },
+    ),
+  }
+}
+
+// <template> 的预处理器：按 `lang` 注册的异步预处理器把模板转换为 HTML 后再编译，
+// 替代 compiler-sfc 通过 consolidate 在运行时 require 的方式。
+// 编译结果的 source map 经过预处理器的 source map 映射回模板源码。
+
+export interface TemplatePreprocessContext {
+  filename: string
+  /**
+   * the block's `lang` attribute
+   */
+  lang: string
+  block: SFCTemplateBlock
+  descriptor: SFCDescriptor
+  ssr: boolean
+}
+
+export interface TemplatePreprocessResult {
+  /**
+   * HTML code
+   */
+  code: string
+  /**
+   * source map from the template source to `code`
+   */
+  map?: ExistingRawSourceMap
+}
+
+export type TemplatePreprocessor = (
+  code: string,
+  context: TemplatePreprocessContext,
+) => TemplatePreprocessResult | Promise<TemplatePreprocessResult>
+
+export function getTemplatePreprocessor(
+  lang: string | undefined,
+  options: ResolvedOptions,
+): TemplatePreprocessor | undefined {
+  return lang ? options.template?.preprocessors?.[lang] : undefined
+}
+
+export interface PreprocessedTemplate {
+  /**
+   * the template source, i.e. the block content or the `src` file
+   */
+  source: string
+  code: string
+  map: TraceMap | undefined
+}
+
+/**
+ * Run the preprocessor of the template. Returns `undefined` when there is no
+ * preprocessor for its `lang`.
+ */
+export async function preprocessTemplate(
+  source: string,
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+  ssr: boolean,
+): Promise<PreprocessedTemplate | undefined> {
+  const block = descriptor.template
+  const preprocessor = getTemplatePreprocessor(block?.lang, options)
+  if (!block || !preprocessor) {
+    return
+  }
+  const { code, map } = await preprocessor(source, {
+    filename: descriptor.filename,
+    lang: block.lang!,
+    block,
+    descriptor,
+    ssr,
+  })
+  return {
+    source,
+    code,
+    map: map && new TraceMap(map as TraceEncodedSourceMap),
+  }
+}
+
+/**
+ * Map the source map of `compileTemplate()` for a preprocessed template back
+ * to the template source, or to the SFC for an inline template.
+ */
+export function restorePreprocessedTemplate<
+  T extends { map?: RawSourceMap | null },
+>(
+  result: T,
+  descriptor: SFCDescriptor,
+  { source, code, map }: PreprocessedTemplate,
+): T {
+  if (!result.map) {
+    return result
+  }
+  const template = descriptor.template!
+  const [original, base] = template.src
+    ? [source, 0]
+    : [descriptor.source, template.loc.start.offset]
+  const codeLines = getLineStarts(code)
+  const sourceLines = getLineStarts(source)
+  return {
+    ...result,
+    map: remapSourceMap(
+      result.map,
+      descriptor.filename,
+      original,
+      (line, column) =>
+        map &&
+        traceOffset(
+          map,
+          codeLines,
+          getOffset(codeLines, line, column),
+          sourceLines,
+          base,
+        ),
+    ),
+  }
+}
+
+// offset in the output of a preprocessor -> offset in the original code,
+// shifted by `base`
+function traceOffset(
+  map: TraceMap,
+  codeLines: number[],
+  offset: number,
+  originalLines: number[],
+  base: number,
+): number | undefined {
+  const { line, column } = getLocation(codeLines, offset)
+  const original = originalPositionFor(map, { line, column: column - 1 })
+  if (original.line == null) {
+    return
+  }
+  return base + getOffset(originalLines, original.line, original.column)
+}
@@ -1,6 +1,22 @@
 import type { SFCDescriptor, SFCScriptBlock } from 'vue/compiler-sfc'
+import type { PluginContext } from 'rollup'
+import type { Node } from '@babel/types'
 import { resolveTemplateCompilerOptions } from './template'
+import { canPatchCssVars } from './cssVars'
+import { isTypeCheckEnabled } from './typeCheck'
+import {
+  captureCompilerWarnings,
+  createScriptError,
+  reportScriptWarning,
+} from './utils/error'
 import { cache as descriptorCache } from './utils/descriptorCache'
+import {
+  getScriptPreprocessor,
+  getTemplatePreprocessor,
+  preprocessScript,
+  restorePreprocessedScript,
+} from './preprocessors'
+import type { PreprocessedScript } from './preprocessors'
 import type { ResolvedOptions } from '.'
 
 // ssr and non ssr builds would output different script content
@@ -32,14 +48,28 @@ export function setResolvedScript(
   ;(ssr ? ssrCache : clientCache).set(descriptor, script)
 }
 
+// strip the babel ASTs from a resolved script block so that it can be
+// serialized, e.g. into the persistent cache.
+export function toSerializableScript(script: SFCScriptBlock): SFCScriptBlock {
+  const { scriptAst, scriptSetupAst, ...rest } = script
+  return rest
+}
+
 // Check if we can use compile template as inlined render function
 // inside <script setup>. This can only be done for build because
 // inlined template cannot be individually hot updated.
 export function isUseInlineTemplate(
   descriptor: SFCDescriptor,
   isProd: boolean,
+  options: ResolvedOptions,
 ): boolean {
-  return isProd && !!descriptor.scriptSetup && !descriptor.template?.src
+  return (
+    isProd &&
+    !!descriptor.scriptSetup &&
+    !descriptor.template?.src &&
+    // compileScript() can't wait for async template preprocessors
+    !getTemplatePreprocessor(descriptor.template?.lang, options)
+  )
 }
 
 export const scriptIdentifier = `_sfc_main`
@@ -48,6 +78,7 @@ export function resolveScript(
   descriptor: SFCDescriptor,
   options: ResolvedOptions,
   ssr: boolean,
+  pluginContext?: PluginContext,
 ): SFCScriptBlock | null {
   if (!descriptor.script && !descriptor.scriptSetup) {
     return null
@@ -60,39 +91,176 @@ export function resolveScript(
   }
 
   let resolved: SFCScriptBlock | null = null
+  // compile script blocks in other languages from their JS output, located
+  // in a copy of the SFC source
+  let preprocessed: PreprocessedScript | undefined
+  let compiledDescriptor = descriptor
+
+  const compile = () => {
+    preprocessed = preprocessScript(descriptor, options)
+    compiledDescriptor = preprocessed?.descriptor ?? descriptor
+    const result = options.compiler.compileScript(
+      // CSS vars are injected by the main module instead (see `cssVars.ts`)
+      canPatchCssVars(descriptor, options, ssr)
+        ? { ...compiledDescriptor, cssVars: [] }
+        : compiledDescriptor,
+      {
+        ...options.script,
+        id: descriptor.id,
+        isProd: options.isProduction,
+        inlineTemplate: isUseInlineTemplate(
+          descriptor,
+          !options.devServer,
+          options,
+        ),
+        reactivityTransform: options.reactivityTransform !== false,
+        templateOptions: resolveTemplateCompilerOptions(
+          descriptor,
+          options,
+          ssr,
+        ),
+        // type errors are located through the source map, even when the
+        // build doesn't generate source maps
+        sourceMap:
+          options.sourceMap || isTypeCheckEnabled(descriptor, options, ssr),
+        genDefaultAs: canInlineMain(descriptor, options)
+          ? scriptIdentifier
+          : undefined,
+      },
+    )
+    result.warnings = [
+      ...(result.warnings || []),
+      ...getFeatureWarnings(compiledDescriptor, result, options),
+    ]
+    return preprocessed
+      ? restorePreprocessedScript(result, descriptor, preprocessed)
+      : result
+  }
 
-  resolved = options.compiler.compileScript(descriptor, {
-    ...options.script,
-    id: descriptor.id,
-    isProd: options.isProduction,
-    inlineTemplate: isUseInlineTemplate(descriptor, !options.devServer),
-    reactivityTransform: options.reactivityTransform !== false,
-    templateOptions: resolveTemplateCompilerOptions(descriptor, options, ssr),
-    sourceMap: options.sourceMap,
-    genDefaultAs: canInlineMain(descriptor, options)
-      ? scriptIdentifier
-      : undefined,
-  })
+  if (pluginContext) {
+    // report errors and warnings of compileScript through the plugin context.
+    // Locations of preprocessed scripts point to the preprocessor output.
+    let warnings: string[] = []
+    try {
+      ;[resolved, warnings] = captureCompilerWarnings(compile)
+    } catch (e) {
+      pluginContext.error(createScriptError(compiledDescriptor, e, options))
+    }
+    for (const warning of [...warnings, ...(resolved?.warnings || [])]) {
+      reportScriptWarning(pluginContext, compiledDescriptor, warning, options)
+    }
+  } else {
+    resolved = compile()
+  }
 
   if (!options.isProduction && resolved?.deps) {
-    for (const [key, sfcs] of typeDepToSFCMap) {
-      if (sfcs.has(descriptor.filename) && !resolved.deps.includes(key)) {
-        sfcs.delete(descriptor.filename)
+    registerTypeDeps(descriptor.filename, resolved.deps)
+  }
+
+  cacheToUse.set(descriptor, resolved)
+  return resolved
+}
+
+const compilerMacros = ['defineProps', 'defineEmits', 'defineExpose']
+
+/**
+ * Warnings about deprecated and experimental features used by a script,
+ * detected from its AST. compiler-sfc logs them once per process and not in
+ * production, so that they would be missing from builds.
+ */
+function getFeatureWarnings(
+  descriptor: SFCDescriptor,
+  script: SFCScriptBlock,
+  options: ResolvedOptions,
+): string[] {
+  const warnings = new Set<string>()
+  const { compiler } = options
+  const reactivityTransform = options.reactivityTransform !== false
+
+  if (
+    reactivityTransform &&
+    [descriptor.script, descriptor.scriptSetup].some(
+      (block) => block && compiler.shouldTransformRef(block.content),
+    )
+  ) {
+    warnings.add(
+      'Reactivity Transform is deprecated and will be removed from Vue core in 3.4.',
+    )
+  }
+
+  for (const node of script.scriptSetupAst || []) {
+    if (node.type === 'ImportDeclaration' && node.source.value === 'vue') {
+      for (const specifier of node.specifiers) {
+        if (specifier.type !== 'ImportSpecifier') continue
+        const imported =
+          specifier.imported.type === 'Identifier'
+            ? specifier.imported.name
+            : specifier.imported.value
+        if (compilerMacros.includes(imported)) {
+          warnings.add(
+            `\`${imported}\` is a compiler macro and no longer needs to be imported.`,
+          )
+        }
       }
     }
 
-    for (const dep of resolved.deps) {
-      const existingSet = typeDepToSFCMap.get(dep)
-      if (!existingSet) {
-        typeDepToSFCMap.set(dep, new Set([descriptor.filename]))
-      } else {
-        existingSet.add(descriptor.filename)
+    // macros are only compiled in top-level statements
+    const declarations =
+      node.type === 'VariableDeclaration'
+        ? node.declarations
+        : node.type === 'ExpressionStatement'
+        ? [{ id: null, init: node.expression }]
+        : []
+    for (const { id, init } of declarations) {
+      if (
+        options.script?.defineModel &&
+        init &&
+        isCallOf(init, 'defineModel')
+      ) {
+        warnings.add(
+          'defineModel() is an experimental feature. It may receive breaking changes or be removed in the future.',
+        )
+      }
+      if (
+        (options.script?.propsDestructure || reactivityTransform) &&
+        id?.type === 'ObjectPattern' &&
+        init &&
+        isCallOf(init, 'defineProps')
+      ) {
+        warnings.add(
+          'Reactive props destructure is an experimental feature. It may receive breaking changes or be removed in the future.',
+        )
       }
     }
   }
+  return [...warnings]
+}
 
-  cacheToUse.set(descriptor, resolved)
-  return resolved
+function isCallOf(node: Node, name: string): boolean {
+  return (
+    node.type === 'CallExpression' &&
+    node.callee.type === 'Identifier' &&
+    node.callee.name === name
+  )
+}
+
+// record which SFCs depend on which (type) files so that changes to the
+// latter can trigger a re-compile of the former during HMR.
+export function registerTypeDeps(filename: string, deps: string[]): void {
+  for (const [key, sfcs] of typeDepToSFCMap) {
+    if (sfcs.has(filename) && !deps.includes(key)) {
+      sfcs.delete(filename)
+    }
+  }
+
+  for (const dep of deps) {
+    const existingSet = typeDepToSFCMap.get(dep)
+    if (!existingSet) {
+      typeDepToSFCMap.set(dep, new Set([filename]))
+    } else {
+      existingSet.add(filename)
+    }
+  }
 }
 
 // If the script is js/ts and has no external src, it can be directly placed
@@ -105,7 +273,8 @@ export function canInlineMain(
     return false
   }
   const lang = descriptor.script?.lang || descriptor.scriptSetup?.lang
-  if (!lang || lang === 'js') {
+  // preprocessed scripts are compiled from JS
+  if (!lang || lang === 'js' || getScriptPreprocessor(lang, options)) {
     return true
   }
   if (lang === 'ts' && options.devServer) {
@@ -0,0 +1,229 @@
+import path from 'node:path'
+import type { SFCDescriptor } from 'vue/compiler-sfc'
+import type { PluginContext } from 'rollup'
+import { createFilter, normalizePath } from 'vite'
+import { getResolvedScript } from './script'
+import type { ResolvedOptions } from '.'
+
+// SSR 模块注册：渲染时通过包装 setup（或 beforeCreate 钩子）把组件记录到
+// ssrContext 上，服务端据此生成 preload / link 标签。
+// - 默认只把相对于项目根目录的文件路径加入 `ssrContext.modules`
+// - 配置 `ssr.registrar` 后，还会调用该模块默认导出的函数，传入 scopeId、
+//   样式模块 id、异步子组件等元数据（SSRModuleInfo）
+// - `ssr.registerModules` 可以关闭注册，或只注册匹配的文件
+// - `ssr.collectCss` 开启后，组件以 `?inline` 导入各个 <style> 编译后的 CSS，
+//   渲染时按样式模块 id 去重收集到 `ssrContext.styles`，用于输出首屏内联样式
+
+export interface SSROptions {
+  /**
+   * Register the SFCs rendered during SSR. `false` leaves the compiled
+   * components untouched, an object only registers the matching files.
+   *
+   * @default true
+   */
+  registerModules?:
+    | boolean
+    | {
+        include?: string | RegExp | (string | RegExp)[]
+        exclude?: string | RegExp | (string | RegExp)[]
+      }
+  /**
+   * How the registration runs when a component renders:
+   * - `'setup'`: `setup` is replaced by a function registering the component
+   *   before calling the original one
+   * - `'hook'`: a `beforeCreate` hook registers the component, keeping
+   *   `setup` as is. It requires the Options API (`__VUE_OPTIONS_API__`,
+   *   enabled by default).
+   *
+   * @default 'setup'
+   */
+  registerMode?: 'setup' | 'hook'
+  /**
+   * Module whose default export is called with the SSR context and the
+   * metadata of each SFC when it renders on the server, after the file is
+   * added to `ssrContext.modules`:
+   * `(ssrContext: Record<string, any>, module: SSRModuleInfo) => void`.
+   * Relative paths are resolved against the project root.
+   */
+  registrar?: string
+  /**
+   * Collect the compiled CSS of the `<style>` blocks of each rendered SFC
+   * into `ssrContext.styles`, a `Map` from the id of the style module to its
+   * CSS, to inline it in the HTML. Each style is collected once per request.
+   *
+   * @default false
+   */
+  collectCss?: boolean
+}
+
+/**
+ * Metadata of a rendered SFC. Module ids are relative to the project root,
+ * like the keys of Vite's SSR manifest (`build.ssrManifest`).
+ */
+export interface SSRModuleInfo {
+  /**
+   * the SFC, as added to `ssrContext.modules`
+   */
+  file: string
+  /**
+   * id of the SFC (hash used for scoped styles and HMR)
+   */
+  id: string
+  /**
+   * `data-v-<id>` attribute of scoped styles, if any
+   */
+  scopeId?: string
+  /**
+   * ids of the style sub-modules imported by the SFC
+   */
+  styles: string[]
+  /**
+   * SFCs and other modules loaded by `defineAsyncComponent(() => import())`
+   * calls in the script
+   */
+  asyncComponents: string[]
+}
+
+const asyncComponentRE =
+  /\bdefineAsyncComponent\(\s*(?:\{[^}]*?\bloader\s*:\s*)?(?:async\s*)?\(\s*\)\s*=>\s*import\(\s*(['"])([^'"]+)\1\s*\)/g
+
+const registerFilters = new WeakMap<object, (id: unknown) => boolean>()
+
+export function isSSRRegistrationEnabled(
+  filename: string,
+  options: ResolvedOptions,
+): boolean {
+  const registerModules = options.ssr?.registerModules ?? true
+  if (typeof registerModules === 'boolean') {
+    return registerModules
+  }
+  let filter = registerFilters.get(registerModules)
+  if (!filter) {
+    filter = createFilter(registerModules.include, registerModules.exclude)
+    registerFilters.set(registerModules, filter)
+  }
+  return filter(filename)
+}
+
+/**
+ * Code registering the component in the SSR context of the request it renders
+ * in, from its setup or a `beforeCreate` hook.
+ */
+export async function genSSRRegistrationCode(
+  descriptor: SFCDescriptor,
+  // requests of the style sub-modules, see genStyleCode()
+  styleRequests: string[],
+  options: ResolvedOptions,
+  pluginContext: PluginContext,
+): Promise<string> {
+  const { filename } = descriptor
+  const file = toModuleId(filename, options)
+  const code = [`import { useSSRContext as __vite_useSSRContext } from 'vue'`]
+  // statements run when the component renders
+  const register = [
+    `  const ssrContext = __vite_useSSRContext()`,
+    `  ;(ssrContext.modules || (ssrContext.modules = new Set())).add(${JSON.stringify(
+      file,
+    )})`,
+  ]
+  const styles =
+    options.ssr?.registrar || options.ssr?.collectCss
+      ? await resolveStyleIds(styleRequests, filename, options, pluginContext)
+      : []
+  if (options.ssr?.collectCss && styles.length) {
+    styleRequests.forEach((request, i) => {
+      // the CSS as a string, like for custom elements
+      const inlineRequest = /[?&]inline\b/.test(request)
+        ? request
+        : request.replace('?vue', '?vue&inline')
+      code.push(`import _sfc_css_${i} from ${JSON.stringify(inlineRequest)}`)
+    })
+    code.push(
+      `const _sfc_ssr_styles = [${styles
+        .map((id, i) => `[${JSON.stringify(id)}, _sfc_css_${i}]`)
+        .join(', ')}]`,
+    )
+    register.push(
+      `  const styles = ssrContext.styles || (ssrContext.styles = new Map())`,
+      `  _sfc_ssr_styles.forEach(([id, css]) => styles.set(id, css))`,
+    )
+  }
+  if (options.ssr?.registrar) {
+    const asyncComponents: string[] = []
+    // the compiled script, the code of the main module only imports it from
+    // a sub-module for TS scripts
+    const scriptContent = getResolvedScript(descriptor, true)?.content || ''
+    for (const [, , source] of scriptContent.matchAll(asyncComponentRE)) {
+      const resolved = await pluginContext.resolve(source, filename)
+      if (resolved && !resolved.external) {
+        asyncComponents.push(toModuleId(resolved.id, options))
+      }
+    }
+    const info: SSRModuleInfo = {
+      file,
+      id: descriptor.id,
+      scopeId: descriptor.styles.some((s) => s.scoped)
+        ? `data-v-${descriptor.id}`
+        : undefined,
+      styles,
+      asyncComponents,
+    }
+    code.push(
+      `import __vite_ssr_register from ${JSON.stringify(
+        resolveRegistrar(options.ssr.registrar, options),
+      )}`,
+      `const _sfc_ssr_module = ${JSON.stringify(info)}`,
+    )
+    register.push(`  __vite_ssr_register(ssrContext, _sfc_ssr_module)`)
+  }
+  if (options.ssr?.registerMode === 'hook') {
+    // runs after setup, with the component instance still current
+    code.push(
+      `const _sfc_beforeCreate = _sfc_main.beforeCreate`,
+      `_sfc_main.beforeCreate = function () {`,
+      ...register,
+      `  if (_sfc_beforeCreate) return _sfc_beforeCreate.call(this)`,
+      `}`,
+    )
+  } else {
+    code.push(
+      `const _sfc_setup = _sfc_main.setup`,
+      `_sfc_main.setup = (props, ctx) => {`,
+      ...register,
+      `  return _sfc_setup ? _sfc_setup(props, ctx) : undefined`,
+      `}`,
+    )
+  }
+  return code.join('\n')
+}
+
+async function resolveStyleIds(
+  styleRequests: string[],
+  filename: string,
+  options: ResolvedOptions,
+  pluginContext: PluginContext,
+): Promise<string[]> {
+  const ids: string[] = []
+  for (const request of styleRequests) {
+    const [src, query = ''] = request.split('?')
+    // `<style src>` is imported relative to the SFC
+    const resolved = path.isAbsolute(src)
+      ? src
+      : (await pluginContext.resolve(src, filename))?.id.replace(/\?.*$/, '') ||
+        src
+    ids.push(toModuleId(resolved, options) + (query && `?${query}`))
+  }
+  return ids
+}
+
+function toModuleId(id: string, options: ResolvedOptions): string {
+  return path.isAbsolute(id)
+    ? normalizePath(path.relative(options.root, id))
+    : id
+}
+
+function resolveRegistrar(registrar: string, options: ResolvedOptions) {
+  return registrar.startsWith('.')
+    ? normalizePath(path.resolve(options.root, registrar))
+    : registrar
+}
@@ -1,7 +1,16 @@
-import type { SFCDescriptor } from 'vue/compiler-sfc'
+import type { SFCDescriptor, SFCStyleCompileOptions } from 'vue/compiler-sfc'
 import type { ExistingRawSourceMap, TransformPluginContext } from 'rollup'
 import type { RawSourceMap } from 'source-map-js'
 import { formatPostcssSourceMap } from 'vite'
+import {
+  captureWarnings,
+  createCacheKey,
+  isCacheEnabled,
+  readCache,
+  replayWarnings,
+  writeCache,
+} from './cache'
+import { createStyleDiagnostic, reportWarning } from './utils/error'
 import type { ResolvedOptions } from '.'
 
 // 专门用来处理 .vue 文件中每一个 <style> 区块的转换逻辑。
@@ -14,16 +23,48 @@ export async function transformStyle(
   // options	ResolvedOptions	插件的全局配置
   // pluginContext	TransformPluginContext	用于发出错误信息
   // filename	string	当前文件路径（真实文件名）
+  // preprocessLang	string	在 Vite 之外编译时（compileSFC）由 compiler-sfc 自行执行的预处理器
+  // inMap	RawSourceMap	code 为 block 原始内容时（compileSFC）它到 .vue 文件的 source map
   code: string,
   descriptor: SFCDescriptor,
   index: number,
   options: ResolvedOptions,
   pluginContext: TransformPluginContext,
   filename: string,
+  preprocessLang?: SFCStyleCompileOptions['preprocessLang'],
+  inMap?: RawSourceMap,
 ): Promise<any> {
   // 取出对应的 <style> block
   // 每个 .vue 文件可能有多个 <style>：
   const block = descriptor.styles[index]
+
+  const cacheKey = isCacheEnabled(options)
+    ? createCacheKey('style', filename, code, options, {
+        id: descriptor.id,
+        owner: descriptor.filename,
+        scoped: block.scoped,
+        lineOffset: block.loc.start.line,
+        preprocessLang,
+        inMap,
+      })
+    : undefined
+  if (cacheKey) {
+    const cached = readCache(cacheKey, options)
+    if (cached) {
+      replayWarnings(pluginContext, cached.warnings)
+      return cached.result
+    }
+  }
+  const [context, warnings] = cacheKey
+    ? captureWarnings(pluginContext)
+    : [pluginContext]
+
+  // 开发时与 Vite 的 CSS 处理一致，由 `css.devSourcemap` 控制；
+  // 构建（以及 compileSFC）时与脚本的 source map 一致，由 `build.sourcemap` 控制。
+  const sourceMap = options.devServer
+    ? options.cssDevSourcemap
+    : options.sourceMap
+
   // vite already handles pre-processors and CSS module so this is only
   // applying SFC-specific transforms like scoped mode and CSS vars rewrite (v-bind(var))
   // 调用 compileStyleAsync 编译样式
@@ -38,9 +79,13 @@ export async function transformStyle(
     isProd: options.isProduction,
     source: code,
     scoped: block.scoped,
-    ...(options.cssDevSourcemap
+    preprocessLang,
+    // compiler-sfc chains the maps of the pre-processor and PostCSS onto inMap
+    map: sourceMap ? inMap : undefined,
+    ...(sourceMap
       ? {
-          // 用于开发模式下 CSS 的调试能力（source map 映射到 .vue 文件）。
+          // 生成 CSS 的 source map（映射到 .vue 文件）；传入 inMap 时由
+          // compiler-sfc 改为基于 inMap 生成。
           postcssOptions: {
             map: {
               from: filename,
@@ -48,26 +93,56 @@ export async function transformStyle(
               annotation: false,
             },
           },
+          // less only generates a map when asked to, which compiler-sfc
+          // doesn't do; sass appends a `sourceMappingURL` comment with it
+          ...(preprocessLang && {
+            preprocessOptions:
+              preprocessLang === 'less'
+                ? { sourceMap: {} }
+                : { omitSourceMapUrl: true },
+          }),
         }
       : {}),
   })
 
-  // 捕捉所有 CSS 编译错误（包括语法错误、插件错误等）
-  // 如果错误位置可知（line 和 column），会加上 .vue 文件内的正确位置偏移
+  // 捕捉所有 CSS 编译错误（包括语法错误、插件错误等），
+  // 并转换为带代码帧、block 信息和错误码的诊断信息
   if (result.errors.length) {
-    result.errors.forEach((error: any) => {
-      if (error.line && error.column) {
-        error.loc = {
-          file: descriptor.filename,
-          line: error.line + block.loc.start.line,
-          column: error.column,
-        }
-      }
-      pluginContext.error(error)
-    })
+    result.errors.forEach((error: any) =>
+      context.error(
+        createStyleDiagnostic(
+          descriptor,
+          index,
+          filename,
+          code,
+          error,
+          options,
+        ),
+      ),
+    )
     return null
   }
 
+  // PostCSS 插件产生的警告
+  result.rawResult?.messages.forEach((message) => {
+    if (message.type === 'warning') {
+      reportWarning(
+        context,
+        createStyleDiagnostic(
+          descriptor,
+          index,
+          filename,
+          code,
+          message,
+          options,
+          true,
+        ),
+        'styleWarnings',
+        options,
+      )
+    }
+  })
+
   // Vue 编译器返回的 result.map 是标准的 PostCSS map，这里使用 formatPostcssSourceMap() 将其转成 Rollup/Vite 可识别的格式。
   const map = result.map
     ? await formatPostcssSourceMap(
@@ -78,6 +153,14 @@ export async function transformStyle(
       )
     : ({ mappings: '' } as any)
 
+  if (cacheKey) {
+    writeCache(
+      cacheKey,
+      { result: { code: result.code, map }, warnings },
+      options,
+    )
+  }
+
   return {
     code: result.code,
     map: map,
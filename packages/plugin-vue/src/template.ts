@@ -8,9 +8,39 @@ import type {
 } from 'vue/compiler-sfc'
 import type { PluginContext, TransformPluginContext } from 'rollup'
 import { getResolvedScript, resolveScript } from './script'
-import { createRollupError } from './utils/error'
+import {
+  preprocessTemplate,
+  restorePreprocessedTemplate,
+} from './preprocessors'
+import type { PreprocessedTemplate } from './preprocessors'
+import { createTemplateDiagnostic, reportWarning } from './utils/error'
+import { createInspectorTransform } from './inspector'
+import {
+  captureWarnings,
+  createCacheKey,
+  hashDeps,
+  isCacheEnabled,
+  readCache,
+  replayWarnings,
+  writeCache,
+} from './cache'
 import type { ResolvedOptions } from '.'
 
+// templates compiled ahead of time in a worker thread (see `parallel` option)
+const precompiledCache = new WeakMap<
+  SFCDescriptor,
+  { ssr: boolean; source: string; result: SFCTemplateCompileResults }
+>()
+
+export function setPrecompiledTemplate(
+  descriptor: SFCDescriptor,
+  source: string,
+  result: SFCTemplateCompileResults,
+  ssr: boolean,
+): void {
+  precompiledCache.set(descriptor, { ssr, source, result })
+}
+
 // 把 Vue 单文件组件的 <template> 编译成 JS 模块，并在开发环境下为其注入 HMR 热更新支持。
 export async function transformTemplateAsModule(
   // 参数	类型	说明
@@ -28,8 +58,34 @@ export async function transformTemplateAsModule(
   code: string
   map: any
 }> {
+  const cacheKey = isCacheEnabled(options)
+    ? createCacheKey('template', descriptor.filename, code, options, {
+        ssr,
+        id: descriptor.id,
+        // bindings from the script affect the compiled template
+        source: descriptor.source,
+      })
+    : undefined
+  if (cacheKey) {
+    const cached = readCache<{ code: string; map: any }>(cacheKey, options)
+    if (cached) {
+      replayWarnings(pluginContext, cached.warnings)
+      return cached.result
+    }
+  }
+  const [context, warnings] = cacheKey
+    ? captureWarnings(pluginContext)
+    : [pluginContext]
+
   // 编译 template
-  const result = compile(code, descriptor, options, pluginContext, ssr)
+  const result = compile(
+    code,
+    descriptor,
+    options,
+    context,
+    ssr,
+    await runPreprocessor(code, descriptor, options, context, ssr),
+  )
 
   let returnCode = result.code
   if (
@@ -53,6 +109,18 @@ export async function transformTemplateAsModule(
     // 避免整个页面 reload，提高开发体验
   }
 
+  if (cacheKey) {
+    writeCache(
+      cacheKey,
+      {
+        result: { code: returnCode, map: result.map },
+        deps: hashDeps(getResolvedScript(descriptor, ssr)?.deps),
+        warnings,
+      },
+      options,
+    )
+  }
+
   return {
     code: returnCode,
     map: result.map,
@@ -67,7 +135,7 @@ export async function transformTemplateAsModule(
  * SSR 构建
  * 合并代码，减少模块数量
  */
-export function transformTemplateInMain(
+export async function transformTemplateInMain(
   // 参数	类型	说明
   // code	string	<template> 原始源码
   // descriptor	SFCDescriptor	.vue 文件的结构信息
@@ -79,12 +147,19 @@ export function transformTemplateInMain(
   options: ResolvedOptions,
   pluginContext: PluginContext,
   ssr: boolean,
-): SFCTemplateCompileResults {
+): Promise<SFCTemplateCompileResults> {
   // 这里底层是调用 vue/compiler-sfc.compileTemplate() 得到：
   // export function render() { ... }
   // 或 SSR 情况下是：
   // export function ssrRender() { ... }
-  const result = compile(code, descriptor, options, pluginContext, ssr)
+  const result = compile(
+    code,
+    descriptor,
+    options,
+    pluginContext,
+    ssr,
+    await runPreprocessor(code, descriptor, options, pluginContext, ssr),
+  )
   return {
     ...result,
     // 替换导出名称 → 变成变量（让主模块能引用）
@@ -102,28 +177,51 @@ export function compile(
   options: ResolvedOptions, // 插件配置（包含 compiler）
   pluginContext: PluginContext, // Vite 插件上下文（用于报错）
   ssr: boolean, // 是否为 SSR 构建
+  // output of the template preprocessor registered for the block's lang
+  preprocessed?: PreprocessedTemplate,
 ): any {
-  const filename = descriptor.filename
-
   // 虽然这里是处理 <template>，但还是要预先解析 script 块，因为：
   // script setup 会影响 template（比如自动导入变量、bindings）
   // compileTemplate 需要 binding metadata 来正确处理表达式中的标识符（如 msg, count）
-  resolveScript(descriptor, options, ssr)
+  resolveScript(descriptor, options, ssr, pluginContext)
+
+  // use the result compiled in a worker thread if it matches this request
+  const precompiled = precompiledCache.get(descriptor)
+  if (precompiled) {
+    precompiledCache.delete(descriptor)
+  }
 
   // vue/compiler-sfc.compileTemplate()
-  const result = options.compiler.compileTemplate({
-    ...resolveTemplateCompilerOptions(descriptor, options, ssr)!,
-    source: code,
-  })
+  let result: SFCTemplateCompileResults
+  if (precompiled && precompiled.ssr === ssr && precompiled.source === code) {
+    result = precompiled.result
+  } else if (preprocessed) {
+    // the preprocessed HTML is compiled as is, its source map is then mapped
+    // back to the template source
+    result = restorePreprocessedTemplate(
+      options.compiler.compileTemplate({
+        ...resolveTemplateCompilerOptions(descriptor, options, ssr)!,
+        source: preprocessed.code,
+        preprocessLang: undefined,
+        inMap: undefined,
+      }),
+      descriptor,
+      preprocessed,
+    )
+    // locations of errors and tips point to the preprocessed HTML
+    code = preprocessed.code
+  } else {
+    result = options.compiler.compileTemplate({
+      ...resolveTemplateCompilerOptions(descriptor, options, ssr)!,
+      source: code,
+    })
+  }
 
-  // 如果是字符串报错（简易错误），直接构造 Vite 报错
-  // 如果是 CompilerError，用 createRollupError() 转换成 Rollup 格式，提供文件、行号等信息
+  // 把错误与提示（tip）统一转换为带代码帧、block 信息和错误码的诊断信息
   if (result.errors.length) {
     result.errors.forEach((error) =>
       pluginContext.error(
-        typeof error === 'string'
-          ? { id: filename, message: error }
-          : createRollupError(filename, error),
+        createTemplateDiagnostic(descriptor, code, error, options),
       ),
     )
   }
@@ -132,16 +230,33 @@ export function compile(
   // "Avoid using large v-if trees"、"Prefer v-show when possible"
   if (result.tips.length) {
     result.tips.forEach((tip) =>
-      pluginContext.warn({
-        id: filename,
-        message: tip,
-      }),
+      reportWarning(
+        pluginContext,
+        createTemplateDiagnostic(descriptor, code, tip, options, true),
+        'templateTips',
+        options,
+      ),
     )
   }
 
   return result
 }
 
+// 运行 `template.preprocessors` 中为模板 lang 注册的预处理器，异常作为模板错误报告
+async function runPreprocessor(
+  code: string,
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+  pluginContext: PluginContext,
+  ssr: boolean,
+): Promise<PreprocessedTemplate | undefined> {
+  try {
+    return await preprocessTemplate(code, descriptor, options, ssr)
+  } catch (e: any) {
+    pluginContext.error(createTemplateDiagnostic(descriptor, code, e, options))
+  }
+}
+
 // 生成完整的配置对象，确保 <template> 能正确编译，包括作用域、路径解析、预处理器、TS 支持等。
 // 这个函数负责根据当前 .vue 文件 (descriptor) 和插件配置 (options)，动态构造一个 SFCTemplateCompileOptions（去掉 source 字段）传给 Vue 编译器。
 export function resolveTemplateCompilerOptions(
@@ -221,6 +336,13 @@ export function resolveTemplateCompilerOptions(
     expressionPlugins.push('typescript')
   }
 
+  // 开发时为元素加上 data-v-inspector 属性（在用户的 nodeTransforms 之后执行）
+  let nodeTransforms = options.template?.compilerOptions?.nodeTransforms
+  const inspectorTransform = createInspectorTransform(descriptor, options)
+  if (inspectorTransform) {
+    nodeTransforms = [...(nodeTransforms || []), inspectorTransform]
+  }
+
   return {
     ...options.template,
     id,
@@ -239,6 +361,7 @@ export function resolveTemplateCompilerOptions(
       scopeId: hasScoped ? `data-v-${id}` : undefined,
       bindingMetadata: resolvedScript ? resolvedScript.bindings : undefined,
       expressionPlugins,
+      nodeTransforms,
       sourceMap: options.sourceMap,
     },
   }
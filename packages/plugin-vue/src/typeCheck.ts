@@ -0,0 +1,239 @@
+import path from 'node:path'
+import type { SFCDescriptor, SFCScriptBlock } from 'vue/compiler-sfc'
+import type { PluginContext } from 'rollup'
+import type { RawSourceMap } from 'source-map-js'
+import type { EncodedSourceMap } from '@jridgewell/trace-mapping'
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping'
+import type * as TS from 'typescript'
+import { tryRequire } from './compiler'
+import { createTypeDiagnostic, getSeverity } from './utils/error'
+import type { ResolvedOptions } from '.'
+
+// 构建时对 TS 组件做类型检查：compileScript 的输出（与 script 子模块相同的代码）作为
+// 虚拟文件 `<file>.vue.ts` 交给 TypeScript 检查，组件之间的导入也解析到这些虚拟文件，
+// 诊断信息通过 compileScript 的 source map 映射回 .vue 文件的行列。
+// 映射不到源码的位置（生成的代码，如内联的模板渲染函数）上的诊断会被忽略。
+
+export interface TypeCheckOptions {
+  /**
+   * Path of the tsconfig providing the compiler options, relative to the
+   * project root. Defaults to the nearest `tsconfig.json` of the root.
+   */
+  tsconfig?: string
+}
+
+interface TypeCheckFile {
+  descriptor: SFCDescriptor
+  code: string
+  map: RawSourceMap | undefined
+}
+
+// 虚拟文件名 -> compileScript 的输出。每个插件实例各有一份，
+// 同时进行的构建（如客户端与 SSR 构建）不会检查彼此的组件。
+export type TypeCheckFiles = Map<string, TypeCheckFile>
+
+const shimFileName = '__vue-type-check-shims.d.ts'
+
+// `.vue` imports of components that are not type checked, e.g. JS components
+const shimCode = `declare module '*.vue' {
+  import type { DefineComponent } from 'vue'
+  const component: DefineComponent<{}, {}, any>
+  export default component
+}
+`
+
+export function isTypeCheckEnabled(
+  descriptor: SFCDescriptor,
+  options: ResolvedOptions,
+  ssr: boolean,
+): boolean {
+  const lang = descriptor.scriptSetup?.lang || descriptor.script?.lang
+  return (
+    !!options.typeCheck &&
+    !options.devServer &&
+    !ssr &&
+    !!lang &&
+    /tsx?$/.test(lang) &&
+    !descriptor.script?.src &&
+    getSeverity('typeErrors', options) !== 'off'
+  )
+}
+
+/**
+ * Record the compiled script of a component, to be checked at the end of the
+ * build.
+ */
+export function registerTypeCheckFile(
+  typeCheckFiles: TypeCheckFiles,
+  descriptor: SFCDescriptor,
+  script: SFCScriptBlock,
+): void {
+  // TS resolves `./Comp.vue` to `./Comp.vue.ts` or `./Comp.vue.tsx`
+  typeCheckFiles.set(
+    `${descriptor.filename}.${script.lang === 'tsx' ? 'tsx' : 'ts'}`,
+    { descriptor, code: script.content, map: script.map },
+  )
+}
+
+/**
+ * Type check the components registered during the build, reporting the
+ * diagnostics located in the SFCs.
+ */
+export function checkTypes(
+  typeCheckFiles: TypeCheckFiles,
+  pluginContext: PluginContext,
+  options: ResolvedOptions,
+): void {
+  // `build --watch` doesn't re-transform unchanged modules, keep their files
+  // but drop the ones of components no longer part of the build
+  const moduleIds = new Set(pluginContext.getModuleIds())
+  for (const [fileName, file] of typeCheckFiles) {
+    if (!moduleIds.has(file.descriptor.filename)) {
+      typeCheckFiles.delete(fileName)
+    }
+  }
+  if (!typeCheckFiles.size) {
+    return
+  }
+
+  const ts: typeof TS | undefined =
+    tryRequire('typescript', options.root) || tryRequire('typescript')
+  if (!ts) {
+    return pluginContext.error(
+      `The \`typeCheck\` option requires "typescript" to be installed.`,
+    )
+  }
+
+  const { compilerOptions, typeFiles } = loadConfig(ts, options)
+  const shimFile = path.join(options.root, shimFileName)
+  const fs = options.script?.fs ?? ts.sys
+  const host = ts.createCompilerHost(compilerOptions)
+  host.fileExists = (file) =>
+    typeCheckFiles.has(file) || file === shimFile || fs.fileExists(file)
+  host.readFile = (file) =>
+    typeCheckFiles.get(file)?.code ??
+    (file === shimFile ? shimCode : fs.readFile(file))
+
+  const program = ts.createProgram({
+    rootNames: [
+      ...typeCheckFiles.keys(),
+      shimFile,
+      ...(options.script?.globalTypeFiles || []),
+      ...typeFiles,
+    ],
+    options: compilerOptions,
+    host,
+  })
+
+  let errorCount = 0
+  const severity = getSeverity('typeErrors', options)
+  for (const [fileName, { descriptor, map }] of typeCheckFiles) {
+    const sourceFile = program.getSourceFile(fileName)
+    if (!sourceFile || !map) continue
+    const tracer = new TraceMap(
+      // version property of RawSourceMap is declared as string
+      map as Omit<RawSourceMap, 'version'> as EncodedSourceMap,
+    )
+    const diagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ]
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.start == null) continue
+      const start = mapPosition(
+        ts,
+        tracer,
+        sourceFile,
+        diagnostic.start,
+        descriptor,
+      )
+      if (!start) continue
+      const end = mapPosition(
+        ts,
+        tracer,
+        sourceFile,
+        diagnostic.start + (diagnostic.length || 0),
+        descriptor,
+      )
+      const warning = createTypeDiagnostic(
+        descriptor,
+        `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(
+          diagnostic.messageText,
+          '\n',
+        )}`,
+        start,
+        end?.line === start.line && end.column >= start.column ? end : start,
+        options,
+      )
+      // report all diagnostics before failing the build
+      pluginContext.warn(warning)
+      errorCount++
+    }
+  }
+
+  if (severity === 'error' && errorCount) {
+    pluginContext.error(
+      `Found ${errorCount} type error${errorCount > 1 ? 's' : ''} in Vue SFCs.`,
+    )
+  }
+}
+
+function loadConfig(
+  ts: typeof TS,
+  options: ResolvedOptions,
+): { compilerOptions: TS.CompilerOptions; typeFiles: string[] } {
+  const tsconfig =
+    typeof options.typeCheck === 'object' && options.typeCheck.tsconfig
+  const configFile = tsconfig
+    ? path.resolve(options.root, tsconfig)
+    : ts.findConfigFile(options.root, ts.sys.fileExists)
+
+  let compilerOptions: TS.CompilerOptions = {}
+  let typeFiles: string[] = []
+  if (configFile) {
+    const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile)
+    if (error) {
+      throw new Error(ts.flattenDiagnosticMessageText(error.messageText, '\n'))
+    }
+    const parsed = ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      path.dirname(configFile),
+    )
+    compilerOptions = parsed.options
+    // global declarations of the project, the other files are only checked
+    // when imported by a component
+    typeFiles = parsed.fileNames.filter((file) => file.endsWith('.d.ts'))
+  }
+  return {
+    compilerOptions: { ...compilerOptions, noEmit: true },
+    typeFiles,
+  }
+}
+
+// position in the compiled code -> line / column in the SFC
+function mapPosition(
+  ts: typeof TS,
+  tracer: TraceMap,
+  sourceFile: TS.SourceFile,
+  position: number,
+  descriptor: SFCDescriptor,
+): { line: number; column: number } | undefined {
+  const { line, character } = ts.getLineAndCharacterOfPosition(
+    sourceFile,
+    position,
+  )
+  const original = originalPositionFor(tracer, {
+    line: line + 1,
+    column: character,
+  })
+  // glue code, or an external `src` template
+  if (
+    original.source == null ||
+    original.line == null ||
+    path.resolve(original.source) !== path.resolve(descriptor.filename)
+  ) {
+    return
+  }
+  return { line: original.line, column: original.column }
+}
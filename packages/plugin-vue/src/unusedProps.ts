@@ -0,0 +1,190 @@
+import type { SFCDescriptor, SFCScriptBlock } from 'vue/compiler-sfc'
+import type { PluginContext } from 'rollup'
+import {
+  createUnusedPropWarning,
+  getSeverity,
+  reportWarning,
+} from './utils/error'
+import type { ResolvedOptions } from '.'
+
+// 检查 <script setup> 中通过 defineProps() 声明、但在模板和脚本中都没有使用的 props。
+// 这是基于文本的保守检查：无法确定时（如 props 对象被整体传递、模板使用了预处理器）不报告。
+
+/**
+ * Report props declared in `<script setup>` that are never referenced in the
+ * template or the script. Only enabled with `diagnostics.unusedProps`.
+ */
+export function checkUnusedProps(
+  descriptor: SFCDescriptor,
+  resolvedScript: SFCScriptBlock | null | undefined,
+  options: ResolvedOptions,
+  pluginContext: PluginContext,
+): void {
+  const { scriptSetup, template } = descriptor
+  if (
+    getSeverity('unusedProps', options) === 'off' ||
+    !scriptSetup ||
+    scriptSetup.src ||
+    // preprocessed scripts in other languages can't be analyzed
+    (scriptSetup.lang && !/^[jt]sx?$/.test(scriptSetup.lang)) ||
+    !resolvedScript?.bindings
+  ) {
+    return
+  }
+  const bindings = resolvedScript.bindings
+  const props = Object.keys(bindings).filter((key) => bindings[key] === 'props')
+  if (!props.length) {
+    return
+  }
+
+  // pre-processed or external templates can't be analyzed
+  let templateCode = ''
+  if (template) {
+    if (
+      template.src ||
+      (template.lang && template.lang !== 'html') ||
+      !template.ast
+    ) {
+      return
+    }
+    templateCode = collectTemplateExpressions(template.ast).join('\n')
+    if (/\$props\b/.test(templateCode)) return
+  }
+
+  let ast: any
+  try {
+    ast = options.compiler.babelParse(scriptSetup.content, {
+      sourceType: 'module',
+      plugins: [
+        ...(scriptSetup.lang === 'ts' || scriptSetup.lang === 'tsx'
+          ? ['typescript' as const]
+          : []),
+        ...(scriptSetup.lang === 'jsx' || scriptSetup.lang === 'tsx'
+          ? ['jsx' as const]
+          : []),
+        ...(options.script?.babelParserPlugins || []),
+      ],
+    })
+  } catch (e) {
+    return
+  }
+
+  // find the statement declaring the props, e.g.
+  // `const props = defineProps()` or `const { a } = withDefaults(...)`
+  const statement = ast.program.body.find((node: any) =>
+    node.type === 'VariableDeclaration'
+      ? node.declarations.some((d: any) => isPropsCall(d.init))
+      : node.type === 'ExpressionStatement' && isPropsCall(node.expression),
+  )
+  if (!statement) {
+    return
+  }
+  const id =
+    statement.type === 'VariableDeclaration'
+      ? statement.declarations.find((d: any) => isPropsCall(d.init)).id
+      : undefined
+
+  // local names the props are accessible through in the script
+  let propsVar: string | undefined
+  const locals: Record<string, string> = {}
+  if (id?.type === 'Identifier') {
+    propsVar = id.name
+  } else if (id?.type === 'ObjectPattern') {
+    for (const prop of id.properties) {
+      if (prop.type === 'RestElement') return
+      const key =
+        prop.key.type === 'Identifier' ? prop.key.name : prop.key.value
+      const value =
+        prop.value.type === 'AssignmentPattern' ? prop.value.left : prop.value
+      if (value.type === 'Identifier') locals[key] = value.name
+    }
+  }
+
+  const scriptCode =
+    (descriptor.script?.content || '') +
+    '\n' +
+    scriptSetup.content.slice(0, statement.start) +
+    scriptSetup.content.slice(statement.end)
+
+  // the props object is also exposed to the template
+  const code = scriptCode + '\n' + templateCode
+  // the props object escapes, e.g. `toRefs(props)` or `{ ...props }`
+  if (
+    propsVar &&
+    new RegExp(`\\b${escape(propsVar)}\\b(?!\\s*(\\??\\.|\\[))`).test(code)
+  ) {
+    return
+  }
+
+  const declaration = scriptSetup.content.slice(statement.start, statement.end)
+  for (const name of props) {
+    const isUsed =
+      containsWord(templateCode, name) ||
+      (locals[name] && containsWord(code, locals[name])) ||
+      (propsVar &&
+        new RegExp(
+          `\\b${escape(propsVar)}\\s*(\\??\\.\\s*${escape(
+            name,
+          )}\\b|\\[\\s*['"\`]${escape(name)}['"\`]\\s*\\])`,
+        ).test(code))
+    if (!isUsed) {
+      const index = declaration.search(new RegExp(`\\b${escape(name)}\\b`))
+      reportWarning(
+        pluginContext,
+        createUnusedPropWarning(
+          descriptor,
+          name,
+          index === -1
+            ? undefined
+            : scriptSetup.loc.start.offset + statement.start + index,
+          options,
+        ),
+        'unusedProps',
+        options,
+      )
+    }
+  }
+}
+
+function isPropsCall(node: any): boolean {
+  if (node?.type !== 'CallExpression' || node.callee.type !== 'Identifier') {
+    return false
+  }
+  if (node.callee.name === 'withDefaults') {
+    return isPropsCall(node.arguments[0])
+  }
+  return node.callee.name === 'defineProps'
+}
+
+function containsWord(code: string, word: string): boolean {
+  return new RegExp(`(?<![\\w$.])${escape(word)}(?![\\w$])`).test(code)
+}
+
+function escape(name: string): string {
+  return name.replace(/[$]/g, '\\$&')
+}
+
+// collect the source of all expressions in a template AST (directive values,
+// dynamic arguments and interpolations)
+function collectTemplateExpressions(node: any, result: string[] = []) {
+  // NodeTypes.INTERPOLATION
+  if (node.type === 5) {
+    result.push(node.content.content)
+  }
+  // NodeTypes.ELEMENT
+  if (node.type === 1) {
+    for (const prop of node.props) {
+      // NodeTypes.DIRECTIVE
+      if (prop.type === 7) {
+        if (prop.exp) result.push(prop.exp.content)
+        if (prop.arg && !prop.arg.isStatic) result.push(prop.arg.content)
+      }
+    }
+  }
+  if (node.children) {
+    for (const child of node.children) {
+      collectTemplateExpressions(child, result)
+    }
+  }
+  return result
+}
@@ -3,6 +3,7 @@ import path from 'node:path'
 import { createHash } from 'node:crypto'
 import slash from 'slash'
 import type { CompilerError, SFCDescriptor } from 'vue/compiler-sfc'
+import { isMarkdownFile, markdownToSFC } from './markdown'
 import type { ResolvedOptions, VueQuery } from '..'
 
 // 文件整体功能概述
@@ -32,21 +33,23 @@ const prevCache = new Map<string, SFCDescriptor | undefined>()
 // 用传入的 compiler 解析 Vue SFC 文件
 // 计算唯一 id（根据路径 + 内容）用于 HMR 或 CSS scope
 // 存入对应缓存（cache 或 hmrCache）
+// markdown 组件先转换为 SFC 源码再解析
 export function createDescriptor(
   filename: string,
   source: string,
-  { root, isProduction, sourceMap, compiler }: ResolvedOptions,
+  options: ResolvedOptions,
   hmr = false,
 ): SFCParseResult {
+  const { sourceMap, compiler } = options
+  if (isMarkdownFile(filename, options)) {
+    source = markdownToSFC(source, filename, options)
+  }
   const { descriptor, errors } = compiler.parse(source, {
     filename,
     sourceMap,
   })
 
-  // ensure the path is normalized in a way that is consistent inside
-  // project (relative to root) and on different systems.
-  const normalizedPath = slash(path.normalize(path.relative(root, filename)))
-  descriptor.id = getHash(normalizedPath + (isProduction ? source : ''))
+  descriptor.id = getDescriptorId(filename, source, options)
   ;(hmr ? hmrCache : cache).set(filename, descriptor)
   return { descriptor, errors }
 }
@@ -65,6 +68,31 @@ export function invalidateDescriptor(filename: string, hmr = false): void {
   }
 }
 
+// 记录某个文件当前的 descriptor 缓存与 src 引用，返回恢复它们的函数。
+// compileSFC 在 Vite 之外编译时使用，不影响同一进程中开发服务器的缓存。
+export function preserveDescriptor(filename: string): () => void {
+  const prev = cache.get(filename)
+  const prevLinks: [string, SFCDescriptor][] = []
+  for (const [file, owners] of srcRegistry) {
+    for (const owner of owners.values()) {
+      if (owner.filename === filename) {
+        prevLinks.push([file, owner])
+      }
+    }
+  }
+  return () => {
+    if (prev) {
+      cache.set(filename, prev)
+    } else {
+      cache.delete(filename)
+    }
+    deleteSrcDescriptor(filename)
+    for (const [file, owner] of prevLinks) {
+      setSrcDescriptor(file, owner)
+    }
+  }
+}
+
 // 获取并可选解析
 // 如果没有缓存并设置 createIfNotFound: true，就自动读取并解析文件。
 export function getDescriptor(
@@ -91,16 +119,28 @@ export function getDescriptor(
   }
 }
 
-// 用于 <style src="..."> 语法的特殊处理，处理跨文件的 <style> 块，并考虑 scoped 情况。
-// 当同一个 CSS 文件被多个 Vue 文件作为 <style src> 引入时，需要为每个 Vue 文件生成唯一的 descriptor。
+// 外部 src 文件的注册表：src 文件 -> 引用它的 SFC（按 descriptor id 区分）。
+// 同一个文件可以被多个 SFC 作为 <style src> / <template src> 引入：scoped 样式和模板
+// 按各自的 SFC 分别编译（请求中带有 `src=<id>`），热更新时也需要找到所有引用它的 SFC。
+const srcRegistry = new Map<string, Map<string, SFCDescriptor>>()
+
+// 用于 <style src="..."> 等 src 子模块请求，查回引用该文件的 SFC 的 descriptor。
 export function getSrcDescriptor(
   filename: string,
   query: VueQuery,
-): SFCDescriptor {
-  if (query.scoped) {
-    return cache.get(`${filename}?src=${query.src}`)!
+): SFCDescriptor | undefined {
+  const owners = srcRegistry.get(filename)
+  if (!owners) {
+    return
+  }
+  // `src=<id>` requests (scoped styles, templates and custom blocks) are
+  // compiled for a specific owner
+  if (query.src && query.src !== 'true') {
+    return owners.get(query.src)
   }
-  return cache.get(filename)!
+  // the others (unscoped styles and scripts) don't depend on the owner, use
+  // the most recently linked one
+  return [...owners.values()].pop()
 }
 
 export function getTempSrcDescriptor(
@@ -122,19 +162,77 @@ export function getTempSrcDescriptor(
   } as SFCDescriptor
 }
 
-// 手动设置缓存
-export function setSrcDescriptor(
+// 所有引用该 src 文件的 SFC
+export function getSrcOwners(filename: string): SFCDescriptor[] {
+  return [...(srcRegistry.get(filename)?.values() || [])]
+}
+
+// 记录 SFC 引用了某个 src 文件
+export function setSrcDescriptor(filename: string, entry: SFCDescriptor): void {
+  let owners = srcRegistry.get(filename)
+  if (!owners) {
+    srcRegistry.set(filename, (owners = new Map()))
+  }
+  for (const [id, owner] of owners) {
+    // previous versions of the same SFC, whose id changed with its content
+    if (owner.filename === entry.filename && id !== entry.id) {
+      owners.delete(id)
+    }
+  }
+  // keep the most recently linked owner last
+  owners.delete(entry.id)
+  owners.set(entry.id, entry)
+}
+
+// 移除 SFC 对 src 文件的引用，不传 filename 时移除该 SFC 的所有引用
+export function deleteSrcDescriptor(owner: string, filename?: string): void {
+  const files = filename ? [filename] : [...srcRegistry.keys()]
+  for (const file of files) {
+    const owners = srcRegistry.get(file)
+    if (!owners) continue
+    for (const [id, entry] of owners) {
+      if (entry.filename === owner) {
+        owners.delete(id)
+      }
+    }
+    if (!owners.size) {
+      srcRegistry.delete(file)
+    }
+  }
+}
+
+// 按 `scopeId` 策略生成 descriptor id，并加上 `scopeIdPrefix`
+// ids end up in `data-v-<id>` attributes and CSS selectors
+const scopeIdRE = /^[\w-]+$/
+
+function getDescriptorId(
   filename: string,
-  entry: SFCDescriptor,
-  scoped?: boolean,
-): void {
-  if (scoped) {
-    // if multiple Vue files use the same src file, they will be overwritten
-    // should use other key
-    cache.set(`${filename}?src=${entry.id}`, entry)
-    return
+  source: string,
+  { root, isProduction, scopeId, scopeIdPrefix = '' }: ResolvedOptions,
+): string {
+  if (scopeIdPrefix && !scopeIdRE.test(scopeIdPrefix)) {
+    throw new Error(
+      `Invalid \`scopeIdPrefix\` option ${JSON.stringify(scopeIdPrefix)}: ` +
+        `it must only contain letters, digits, "_" and "-".`,
+    )
   }
-  cache.set(filename, entry)
+  if (typeof scopeId === 'function') {
+    const id = scopeId(filename, source, root)
+    if (typeof id !== 'string' || !scopeIdRE.test(id)) {
+      throw new Error(
+        `Invalid id ${JSON.stringify(id)} returned by the \`scopeId\` ` +
+          `option for ${filename}: it must be a non-empty string of ` +
+          `letters, digits, "_" and "-".`,
+      )
+    }
+    return scopeIdPrefix + id
+  }
+  // ensure the path is normalized in a way that is consistent inside
+  // project (relative to root) and on different systems.
+  const normalizedPath = slash(path.normalize(path.relative(root, filename)))
+  // HMR needs ids that don't change with the content during dev
+  const hashContent = scopeId !== 'path' && isProduction
+  return scopeIdPrefix + getHash(normalizedPath + (hashContent ? source : ''))
 }
 
 // 用于生成唯一 ID
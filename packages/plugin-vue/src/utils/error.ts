@@ -1,28 +1,676 @@
-import type { CompilerError } from 'vue/compiler-sfc'
-import type { RollupError } from 'rollup'
+import type { CompilerError, SFCDescriptor } from 'vue/compiler-sfc'
+import type { PluginContext, RollupError } from 'rollup'
+import type { ResolvedOptions } from '..'
+import { getLineStarts, getLocation, getOffset } from './location'
 
-// 将 Vue SFC 编译阶段产生的错误（如 CompilerError 或 SyntaxError）转换为 Rollup 能识别的错误格式 RollupError，
-// 从而使这些错误能被正确显示在终端、IDE 控制台中，或被 Vite 捕获并处理。
-export function createRollupError(
-  id: string,
-  error: CompilerError | SyntaxError,
+// 统一的诊断信息层：把 SFC 解析 / 编译阶段产生的错误与警告（CompilerError、SyntaxError、
+// PostCSS 错误、compiler-sfc 的提示字符串等）转换为结构一致的 RollupError：
+// 稳定的错误码（pluginCode）、原 .vue 文件中的代码帧（frame）、所在 block 以及起止位置。
+
+/**
+ * Stable codes set as `pluginCode` on errors and warnings reported by the
+ * plugin.
+ */
+export const DiagnosticCodes = {
+  PARSE_ERROR: 'VUE_PARSE_ERROR',
+  SCRIPT_ERROR: 'VUE_SCRIPT_ERROR',
+  SCRIPT_WARNING: 'VUE_SCRIPT_WARNING',
+  TEMPLATE_ERROR: 'VUE_TEMPLATE_ERROR',
+  TEMPLATE_WARNING: 'VUE_TEMPLATE_WARNING',
+  STYLE_ERROR: 'VUE_STYLE_ERROR',
+  STYLE_WARNING: 'VUE_STYLE_WARNING',
+  UNUSED_PROP: 'VUE_UNUSED_PROP',
+  CUSTOM_BLOCK_ERROR: 'VUE_CUSTOM_BLOCK_ERROR',
+  UNHANDLED_CUSTOM_BLOCK: 'VUE_UNHANDLED_CUSTOM_BLOCK',
+  TYPE_ERROR: 'VUE_TYPE_ERROR',
+} as const
+
+export type DiagnosticCode =
+  (typeof DiagnosticCodes)[keyof typeof DiagnosticCodes]
+
+export type SFCBlockType = 'sfc' | 'script' | 'template' | 'style' | 'custom'
+
+/**
+ * Categories of warnings whose severity can be configured with the
+ * `diagnostics` option.
+ */
+export type DiagnosticCategory =
+  /**
+   * tips returned by `compileTemplate()`
+   */
+  | 'templateTips'
+  /**
+   * usage of deprecated features, e.g. importing compiler macros or the
+   * reactivity transform
+   */
+  | 'deprecations'
+  /**
+   * usage of experimental features, e.g. `defineModel()`
+   */
+  | 'experimentalFeatures'
+  /**
+   * other warnings of `compileScript()`
+   */
+  | 'scriptWarnings'
+  /**
+   * warnings of PostCSS plugins
+   */
+  | 'styleWarnings'
+  /**
+   * props declared in `<script setup>` but never used in the component
+   */
+  | 'unusedProps'
+  /**
+   * TypeScript diagnostics of the `typeCheck` option
+   */
+  | 'typeErrors'
+
+export type DiagnosticSeverity = 'off' | 'warn' | 'error'
+
+export type DiagnosticsOptions = Partial<
+  Record<DiagnosticCategory, DiagnosticSeverity>
+>
+
+const defaultSeverities: Record<DiagnosticCategory, DiagnosticSeverity> = {
+  templateTips: 'warn',
+  deprecations: 'warn',
+  experimentalFeatures: 'warn',
+  scriptWarnings: 'warn',
+  styleWarnings: 'warn',
+  unusedProps: 'off',
+  typeErrors: 'error',
+}
+
+export interface DiagnosticPosition {
+  /**
+   * 1-based
+   */
+  line: number
+  /**
+   * 0-based
+   */
+  column: number
+  offset: number
+}
+
+/**
+ * Available as `meta.vue` on errors and warnings reported by the plugin.
+ */
+export interface SFCDiagnosticMeta {
+  block: SFCBlockType
+  /**
+   * index of the block among the styles or custom blocks of the SFC
+   */
+  index?: number
+  start?: DiagnosticPosition
+  end?: DiagnosticPosition
+  /**
+   * error code of the Vue compiler, if any
+   */
+  compilerCode?: number
+  /**
+   * category of warnings, see the `diagnostics` option
+   */
+  category?: DiagnosticCategory
+}
+
+interface DiagnosticOptions {
+  code: DiagnosticCode
+  block: SFCBlockType
+  index?: number
+  /**
+   * file the diagnostic points to
+   */
+  id: string
+  /**
+   * content of `id` that `start` and `end` refer to
+   */
+  source: string
+  start?: number
+  end?: number
+  frame?: string
+  compilerCode?: number
+}
+
+function createDiagnostic(
+  message: string,
+  {
+    code,
+    block,
+    index,
+    id,
+    source,
+    start,
+    end = start,
+    frame,
+    compilerCode,
+  }: DiagnosticOptions,
+  options: ResolvedOptions,
+  error?: Error,
 ): RollupError {
-  const { message, name, stack } = error
-  const rollupError: RollupError = {
+  const meta: SFCDiagnosticMeta = { block }
+  if (index != null) meta.index = index
+  if (compilerCode != null) meta.compilerCode = compilerCode
+
+  const diagnostic: RollupError = {
     id,
     plugin: 'vue',
+    pluginCode: code,
     message,
-    name,
-    stack,
+    meta: { vue: meta },
+  }
+  if (error) {
+    diagnostic.name = error.name
+    diagnostic.stack = error.stack
   }
 
-  if ('code' in error && error.loc) {
-    rollupError.loc = {
+  if (start != null && start <= source.length) {
+    const lineStarts = getLineStarts(source)
+    // 0-based columns, like the locations of Rollup
+    const getPosition = (offset: number): DiagnosticPosition => {
+      const { line, column } = getLocation(lineStarts, offset)
+      return { line, column: column - 1, offset }
+    }
+    meta.start = getPosition(start)
+    meta.end = getPosition(Math.max(start, end!))
+    diagnostic.loc = {
       file: id,
-      line: error.loc.start.line,
-      column: error.loc.start.column,
+      line: meta.start.line,
+      column: meta.start.column,
     }
+    diagnostic.frame =
+      frame ?? options.compiler.generateCodeFrame(source, start, end)
+  } else if (frame) {
+    diagnostic.frame = frame
+  }
+  return diagnostic
+}
+
+export function getSeverity(
+  category: DiagnosticCategory,
+  options: ResolvedOptions,
+): DiagnosticSeverity {
+  return options.diagnostics?.[category] ?? defaultSeverities[category]
+}
+
+/**
+ * Report a warning with the severity configured for its category: dropped,
+ * reported as a warning, or reported as an error failing the build.
+ */
+export function reportWarning(
+  pluginContext: PluginContext,
+  warning: RollupError,
+  category: DiagnosticCategory,
+  options: ResolvedOptions,
+): void {
+  const severity = getSeverity(category, options)
+  if (severity === 'off') {
+    return
+  }
+  ;(warning.meta!.vue as SFCDiagnosticMeta).category = category
+  if (severity === 'error') {
+    pluginContext.error(warning)
+  } else {
+    pluginContext.warn(warning)
+  }
+}
+
+/**
+ * Errors returned by `compiler.parse()`.
+ */
+export function createParseError(
+  descriptor: SFCDescriptor,
+  error: CompilerError | SyntaxError,
+  options: ResolvedOptions,
+): RollupError {
+  const start = 'loc' in error ? error.loc?.start.offset : undefined
+  const [block, index] =
+    start != null ? findBlock(descriptor, start) : (['sfc'] as const)
+  return createDiagnostic(
+    error.message,
+    {
+      code: DiagnosticCodes.PARSE_ERROR,
+      block,
+      index,
+      id: descriptor.filename,
+      source: descriptor.source,
+      start,
+      end: 'loc' in error ? error.loc?.end.offset : undefined,
+      compilerCode: 'code' in error ? (error.code as number) : undefined,
+    },
+    options,
+    error,
+  )
+}
+
+/**
+ * Errors and tips of `compileTemplate()`. `code` is the template source that
+ * was compiled.
+ */
+export function createTemplateDiagnostic(
+  descriptor: SFCDescriptor,
+  code: string,
+  error: CompilerError | SyntaxError | string,
+  options: ResolvedOptions,
+  isWarning = false,
+): RollupError {
+  const template = descriptor.template
+  // locations are relative to the template unless compiler-sfc could map them
+  // back to the SFC using the source map of the block
+  const isInline = !!template && !template.src && template.content === code
+  const base = isInline ? template.loc.start.offset : 0
+  const diagnostic = {
+    code: isWarning
+      ? DiagnosticCodes.TEMPLATE_WARNING
+      : DiagnosticCodes.TEMPLATE_ERROR,
+    block: 'template' as const,
+    id: descriptor.filename,
+    source: isInline ? descriptor.source : code,
   }
 
-  return rollupError
+  if (typeof error === 'string') {
+    // tips come with a code frame of the template appended to the message
+    const { message, location } = splitCodeFrame(error)
+    const lineStarts = getLineStarts(code)
+    const start =
+      location &&
+      getOffset(lineStarts, location.start.line, location.start.column) + base
+    const end =
+      location &&
+      getOffset(lineStarts, location.end.line, location.end.column) + base
+    return createDiagnostic(message, { ...diagnostic, start, end }, options)
+  }
+
+  let start: number | undefined
+  let end: number | undefined
+  if ('loc' in error && error.loc) {
+    const mapped = isInline && !!template.map
+    start = error.loc.start.offset + (mapped ? 0 : base)
+    end = error.loc.end.offset + (mapped ? 0 : base)
+  }
+  return createDiagnostic(
+    // compileScript appends a code frame to errors of inlined templates
+    error.message.split('\n\n')[0],
+    {
+      ...diagnostic,
+      start,
+      end,
+      compilerCode: 'code' in error ? (error.code as number) : undefined,
+    },
+    options,
+    error,
+  )
+}
+
+/**
+ * Errors thrown by `compileScript()`.
+ */
+export function createScriptError(
+  descriptor: SFCDescriptor,
+  error: any,
+  options: ResolvedOptions,
+): RollupError {
+  // errors of the template inlined into <script setup>
+  if (typeof error.code === 'number' && error.loc) {
+    return createTemplateDiagnostic(
+      descriptor,
+      descriptor.template?.content ?? '',
+      error,
+      options,
+    )
+  }
+
+  // compiler-sfc formats script errors as
+  // `[@vue/compiler-sfc] message\n\nfilename\nframe`, where the file may be
+  // another file when the error is about an imported type
+  const match = String(error.message).match(
+    /^(\[@?vue\/compiler-sfc\][^]*?)\n\n(.+)\n(\s*\d+\s+\|[^]*)$/,
+  )
+  if (!match) {
+    return createDiagnostic(
+      error.message,
+      {
+        code: DiagnosticCodes.SCRIPT_ERROR,
+        block: 'script',
+        id: descriptor.filename,
+        source: descriptor.source,
+      },
+      options,
+      error,
+    )
+  }
+
+  const [, message, file, frame] = match
+  const location = parseCodeFrame(frame)
+  const isSFC = file === descriptor.filename
+  const lineStarts = getLineStarts(descriptor.source)
+  const start =
+    isSFC && location
+      ? getOffset(lineStarts, location.start.line, location.start.column)
+      : undefined
+  return createDiagnostic(
+    message,
+    {
+      code: DiagnosticCodes.SCRIPT_ERROR,
+      block: 'script',
+      id: file,
+      source: isSFC ? descriptor.source : '',
+      start,
+      end:
+        start != null
+          ? getOffset(lineStarts, location!.end.line, location!.end.column)
+          : start,
+      frame,
+    },
+    options,
+    error,
+  )
+}
+
+/**
+ * Report a warning logged by `compileScript()`, categorized by its message.
+ */
+export function reportScriptWarning(
+  pluginContext: PluginContext,
+  descriptor: SFCDescriptor,
+  message: string,
+  options: ResolvedOptions,
+): void {
+  reportWarning(
+    pluginContext,
+    createScriptWarning(descriptor, message, options),
+    getScriptWarningCategory(message),
+    options,
+  )
+}
+
+function getScriptWarningCategory(message: string): DiagnosticCategory {
+  return /deprecated|no longer needs to be imported/.test(message)
+    ? 'deprecations'
+    : /experimental/.test(message)
+    ? 'experimentalFeatures'
+    : 'scriptWarnings'
+}
+
+function createScriptWarning(
+  descriptor: SFCDescriptor,
+  message: string,
+  options: ResolvedOptions,
+): RollupError {
+  const { message: text, location } = splitCodeFrame(message)
+  return createDiagnostic(
+    text,
+    {
+      code: DiagnosticCodes.SCRIPT_WARNING,
+      block: 'script',
+      id: descriptor.filename,
+      source: descriptor.source,
+      // warnings with a code frame are template tips, their location can't be
+      // mapped reliably
+      frame: location ? message.slice(text.length + 1) : undefined,
+    },
+    options,
+  )
+}
+
+export function createUnusedPropWarning(
+  descriptor: SFCDescriptor,
+  name: string,
+  offset: number | undefined,
+  options: ResolvedOptions,
+): RollupError {
+  return createDiagnostic(
+    `Prop "${name}" is declared but never used.`,
+    {
+      code: DiagnosticCodes.UNUSED_PROP,
+      block: 'script',
+      id: descriptor.filename,
+      source: descriptor.source,
+      start: offset,
+      end: offset != null ? offset + name.length : offset,
+    },
+    options,
+  )
+}
+
+/**
+ * TypeScript diagnostics of the `typeCheck` option, located in the SFC
+ * through the source map of the main module.
+ */
+export function createTypeDiagnostic(
+  descriptor: SFCDescriptor,
+  message: string,
+  start: { line: number; column: number },
+  end: { line: number; column: number },
+  options: ResolvedOptions,
+): RollupError {
+  const lineStarts = getLineStarts(descriptor.source)
+  const startOffset = getOffset(lineStarts, start.line, start.column)
+  const [block, index] = findBlock(descriptor, startOffset)
+  const diagnostic = createDiagnostic(
+    message,
+    {
+      code: DiagnosticCodes.TYPE_ERROR,
+      block,
+      index,
+      id: descriptor.filename,
+      source: descriptor.source,
+      start: startOffset,
+      end: getOffset(lineStarts, end.line, end.column),
+    },
+    options,
+  )
+  ;(diagnostic.meta!.vue as SFCDiagnosticMeta).category = 'typeErrors'
+  return diagnostic
+}
+
+/**
+ * Errors and warnings of `compileStyleAsync()`. `code` is the style source
+ * that was compiled, which only matches the SFC for plain CSS.
+ */
+export function createStyleDiagnostic(
+  descriptor: SFCDescriptor,
+  index: number,
+  filename: string,
+  code: string,
+  error: any,
+  options: ResolvedOptions,
+  isWarning = false,
+): RollupError {
+  const block = descriptor.styles[index]
+  // pre-processed styles are compiled from the output of the pre-processor
+  const isPlain = !block?.lang || block.lang === 'css'
+  const isInline = !!block && !block.src && block.content === code
+  const [id, source, base] = isInline
+    ? [descriptor.filename, descriptor.source, block.loc.start.offset]
+    : [filename, code, 0]
+
+  let start: number | undefined
+  let end: number | undefined
+  if (isPlain && error.line && error.column) {
+    // PostCSS columns are 1-based
+    const lineStarts = getLineStarts(code)
+    start = getOffset(lineStarts, error.line, error.column - 1) + base
+    end =
+      error.endLine && error.endColumn
+        ? getOffset(lineStarts, error.endLine, error.endColumn - 1) + base
+        : start
+  }
+
+  return createDiagnostic(
+    // PostCSS errors and warnings prefix the message with the location
+    error.reason || error.text || error.message,
+    {
+      code: isWarning
+        ? DiagnosticCodes.STYLE_WARNING
+        : DiagnosticCodes.STYLE_ERROR,
+      block: 'style',
+      index,
+      id,
+      source,
+      start,
+      end,
+    },
+    options,
+    isWarning ? undefined : error,
+  )
+}
+
+/**
+ * Errors thrown while loading or transforming a custom block. The location
+ * is taken from JSON and YAML syntax errors when available.
+ */
+export function createCustomBlockError(
+  descriptor: SFCDescriptor,
+  index: number,
+  filename: string,
+  code: string,
+  error: any,
+  options: ResolvedOptions,
+): RollupError {
+  const block = descriptor.customBlocks[index]
+  const isInline = !!block && !block.src && block.content === code
+  const [id, source, base] = isInline
+    ? [descriptor.filename, descriptor.source, block.loc.start.offset]
+    : [filename, code, 0]
+
+  // js-yaml, yaml and JSON.parse() respectively
+  const position: number | undefined =
+    error.mark?.position ??
+    error.pos?.[0] ??
+    (/at position (\d+)/.exec(error.message)?.[1] as any)
+
+  return createDiagnostic(
+    error.message,
+    {
+      code: DiagnosticCodes.CUSTOM_BLOCK_ERROR,
+      block: 'custom',
+      index,
+      id,
+      source,
+      start: position != null ? Number(position) + base : undefined,
+    },
+    options,
+    error,
+  )
+}
+
+export function createUnhandledBlockDiagnostic(
+  descriptor: SFCDescriptor,
+  index: number,
+  options: ResolvedOptions,
+): RollupError {
+  const block = descriptor.customBlocks[index]
+  return createDiagnostic(
+    `<${block.type}> block is not handled by any plugin. ` +
+      `Add a transformer with the \`customBlocks\` option or a Vite plugin ` +
+      `transforming \`?vue&type=${block.type}\` requests.`,
+    {
+      code: DiagnosticCodes.UNHANDLED_CUSTOM_BLOCK,
+      block: 'custom',
+      index,
+      id: descriptor.filename,
+      source: descriptor.source,
+      start: block.loc.start.offset,
+    },
+    options,
+  )
+}
+
+/**
+ * compiler-sfc (and the reactivity transform) report some warnings through
+ * `console.warn` instead of returning them. Collect them while running `fn` so
+ * that they can be reported through the plugin context.
+ *
+ * They are only logged once per process, and not at all with
+ * `NODE_ENV=production`: the warnings about deprecated and experimental
+ * features are detected from the compiled script instead (see
+ * `getFeatureWarnings()`), and dropped here.
+ */
+export function captureCompilerWarnings<T>(fn: () => T): [T, string[]] {
+  const warnings: string[] = []
+  const warn = console.warn
+  console.warn = (...args: any[]) => {
+    const match =
+      typeof args[0] === 'string' &&
+      // eslint-disable-next-line no-control-regex
+      args[0].match(
+        /^\x1B\[1m\x1B\[33m\[@vue\/(?:compiler-sfc|reactivity-transform)\]\x1B\[0m\x1B\[33m ([^]*)\x1B\[0m\n?$/,
+      )
+    if (match) {
+      if (getScriptWarningCategory(match[1]) === 'scriptWarnings') {
+        warnings.push(match[1])
+      }
+    } else {
+      warn.apply(console, args)
+    }
+  }
+  try {
+    return [fn(), warnings]
+  } finally {
+    console.warn = warn
+  }
+}
+
+function findBlock(
+  descriptor: SFCDescriptor,
+  offset: number,
+): [block: SFCBlockType, index?: number] {
+  const contains = (
+    block: {
+      loc: { start: { offset: number }; end: { offset: number } }
+    } | null,
+  ) =>
+    !!block &&
+    block.loc.start.offset <= offset &&
+    offset <= block.loc.end.offset
+  if (contains(descriptor.template)) return ['template']
+  if (contains(descriptor.script) || contains(descriptor.scriptSetup)) {
+    return ['script']
+  }
+  const style = descriptor.styles.findIndex(contains)
+  if (style !== -1) return ['style', style]
+  const custom = descriptor.customBlocks.findIndex(contains)
+  if (custom !== -1) return ['custom', custom]
+  return ['sfc']
+}
+
+interface FrameLocation {
+  start: { line: number; column: number }
+  end: { line: number; column: number }
+}
+
+// split a message of the form `message\n<code frame>`
+function splitCodeFrame(text: string): {
+  message: string
+  location?: FrameLocation
+} {
+  const match = text.match(/^([^]*?)\n(\s*\d+\s+\|[^]*)$/)
+  if (!match) {
+    return { message: text }
+  }
+  return { message: match[1], location: parseCodeFrame(match[2]) }
+}
+
+// recover the highlighted range from a code frame generated by
+// `generateCodeFrame()`
+function parseCodeFrame(frame: string): FrameLocation | undefined {
+  let line = 0
+  let location: FrameLocation | undefined
+  for (const text of frame.split('\n')) {
+    const numbered = text.match(/^(\d+)\s*\|/)
+    if (numbered) {
+      line = Number(numbered[1])
+      continue
+    }
+    const marker = text.match(/^\s+\|  ( *)(\^+)/)
+    if (marker && line) {
+      const column = marker[1].length
+      const end = { line, column: column + marker[2].length }
+      location = location
+        ? { start: location.start, end }
+        : { start: { line, column }, end }
+    }
+  }
+  return location
 }
@@ -0,0 +1,33 @@
+// 文本中的偏移量与行列号之间的换算，供 source map 改写与诊断信息共用。
+
+export function getLineStarts(text: string): number[] {
+  const starts = [0]
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    starts.push(i + 1)
+  }
+  return starts
+}
+
+// 1-based line and column, like the locations of compiler-sfc
+export function getLocation(
+  lineStarts: number[],
+  offset: number,
+): { line: number; column: number; offset: number } {
+  let low = 0
+  let high = lineStarts.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (lineStarts[mid] <= offset) low = mid
+    else high = mid - 1
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1, offset }
+}
+
+// 1-based line, 0-based column
+export function getOffset(
+  lineStarts: number[],
+  line: number,
+  column: number,
+): number {
+  return (lineStarts[line - 1] ?? lineStarts[lineStarts.length - 1]) + column
+}
@@ -0,0 +1,184 @@
+import { tryRequire } from '../compiler'
+import { loadYaml } from '../customBlocks'
+import type { MarkdownOptions } from '../markdown'
+import type { ResolvedOptions } from '..'
+
+// markdown 组件到 SFC 源码的转换，见 markdown.ts
+
+export function isMarkdownFile(
+  filename: string,
+  options: ResolvedOptions,
+): boolean {
+  return !!options.markdownFilter?.(filename)
+}
+
+const frontmatterRE = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+const fenceRE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)([^`]*)$/
+const blockRE = /^<(script|style)(?=[\s>])/
+const setupLangRE = /^[jt]s$/
+const setupAttrRE = /\ssetup(?=[\s>=])/
+const langAttrRE = /\slang=["']?([^"'\s>]+)/
+
+// 生成的 SFC 保持 markdown 文件的行号：<script> / <style> 块和 setup 代码块留在原来的行，
+// 其余行留空，渲染出的模板放在最后。这样这些块的错误位置和 source map 直接对应 .md 文件。
+// 只有文件已有 <script setup> 又有 setup 代码块、或 setup 代码块之间夹着其它块时，
+// 合并后的 <script setup> 才会被移到模板之后。
+
+/**
+ * Convert a markdown file into the source of an SFC. The `<script>` and
+ * `<style>` blocks and the setup code keep their line in the markdown file.
+ */
+export function markdownToSFC(
+  source: string,
+  filename: string,
+  options: ResolvedOptions,
+): string {
+  const lines = source.split(/\r?\n/)
+  // the lines of the SFC before the template
+  const sfc = lines.map(() => '')
+
+  let frontmatter: Record<string, unknown> | undefined
+  let start = 0
+  const match = source.match(frontmatterRE)
+  if (match) {
+    frontmatter = (loadYaml(match[1], options.root) as any) || {}
+    start = match[0].replace(/\r?\n$/, '').split(/\r?\n/).length
+  }
+
+  const markdown: string[] = []
+  const setupFences: { start: number; end: number }[] = []
+  const blocks: { start: number; end: number }[] = []
+  let setupBlock: { start: number; end: number } | undefined
+  let setupLang: string | undefined
+  let scriptLang: string | undefined
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i]
+    const fence = line.match(fenceRE)
+    if (fence) {
+      // find the closing fence, or the end of the document
+      const closeRE = new RegExp(
+        `^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`,
+      )
+      let end = i + 1
+      while (end < lines.length && !closeRE.test(lines[end])) end++
+      if (setupLangRE.test(fence[2]) && /\bsetup\b/.test(fence[3])) {
+        setupFences.push({ start: i, end })
+        if (fence[2] === 'ts') setupLang = 'ts'
+      } else {
+        markdown.push(...lines.slice(i, end + 1))
+      }
+      i = end
+      continue
+    }
+    const block = line.match(blockRE)
+    if (block) {
+      let end = i
+      while (end < lines.length && !lines[end].includes(`</${block[1]}>`)) {
+        end++
+      }
+      const code = lines.slice(i, end + 1).join('\n')
+      const tag = code.slice(0, code.indexOf('>') + 1)
+      if (block[1] === 'script' && setupAttrRE.test(tag)) {
+        setupBlock = { start: i, end }
+      } else {
+        if (block[1] === 'script') scriptLang = tag.match(langAttrRE)?.[1]
+        blocks.push({ start: i, end })
+      }
+      for (let j = i; j <= end; j++) sfc[j] = lines[j] ?? ''
+      i = end
+      continue
+    }
+    markdown.push(line)
+  }
+
+  // code added to <script setup>, on a single line
+  const declaration = frontmatter
+    ? // `</script>` in a string would end the block
+      `const frontmatter = ${JSON.stringify(frontmatter).replace(
+        /</g,
+        '\\u003c',
+      )};`
+    : ''
+  // <script> and <script setup> must have the same lang
+  const lang = scriptLang || setupLang
+  const setupTag = `<script setup${lang ? ` lang="${lang}"` : ''}>`
+  let movedSetup = ''
+  if (setupFences.length) {
+    const first = setupFences[0].start
+    const last = setupFences[setupFences.length - 1].end
+    const setupCode = setupFences.map(({ start, end }) =>
+      lines.slice(start + 1, end).join('\n'),
+    )
+    if (
+      !setupBlock &&
+      !blocks.some(({ start }) => start > first && start < last)
+    ) {
+      // a single <script setup> from the first fence to the last one
+      sfc[first] = setupTag + declaration
+      setupFences.forEach(({ start, end }) => {
+        for (let j = start + 1; j < end; j++) sfc[j] = lines[j]
+      })
+      sfc[last] = '</script>'
+    } else {
+      // moved after the template, with the code of the fences first
+      const code = setupBlock
+        ? lines.slice(setupBlock.start, setupBlock.end + 1).join('\n')
+        : `${setupTag}\n</script>`
+      const tagEnd = code.indexOf('>') + 1
+      movedSetup =
+        code.slice(0, tagEnd) +
+        `\n${[declaration, ...setupCode].filter(Boolean).join('\n')}` +
+        code.slice(tagEnd)
+      if (setupBlock) sfc.fill('', setupBlock.start, setupBlock.end + 1)
+    }
+  } else if (frontmatter && setupBlock) {
+    // right after the opening tag, which may span several lines
+    const code = lines.slice(setupBlock.start, setupBlock.end + 1).join('\n')
+    const tagEnd = code.indexOf('>') + 1
+    sfc.splice(
+      setupBlock.start,
+      setupBlock.end - setupBlock.start + 1,
+      ...(code.slice(0, tagEnd) + declaration + code.slice(tagEnd)).split('\n'),
+    )
+  } else if (frontmatter) {
+    // on the line of the opening `---`
+    sfc[0] = `${setupTag}${declaration}</script>`
+  }
+
+  const render =
+    (typeof options.markdown === 'object' && options.markdown.render) ||
+    getDefaultRenderer(options.root)
+  const html = render(markdown.join('\n'), { filename, frontmatter })
+    // interpolations in code are displayed as-is. Fenced code is rendered as
+    // `<pre><code>`, v-pre on <pre> would keep the attribute on <code>
+    .replace(/<code(?=[\s>])(?![^>]*\sv-pre)/g, '<code v-pre')
+
+  return (
+    `${sfc.join('\n')}\n<template>\n${html}</template>\n` +
+    (movedSetup ? `\n${movedSetup}\n` : '')
+  )
+}
+
+// markdown-it 实例，按项目根目录缓存
+const renderers = new Map<string, MarkdownOptions['render']>()
+
+function getDefaultRenderer(
+  root: string,
+): NonNullable<MarkdownOptions['render']> {
+  let render = renderers.get(root)
+  if (!render) {
+    // resolve from project root first, then fallback to the plugin's deps
+    const MarkdownIt =
+      tryRequire('markdown-it', root) || tryRequire('markdown-it')
+    if (!MarkdownIt) {
+      throw new Error(
+        `Failed to load "markdown-it" to render markdown components.\n` +
+          `Install it in your project, or provide \`markdown.render\`.`,
+      )
+    }
+    const md = new MarkdownIt({ html: true })
+    render = (markdown) => md.render(markdown)
+    renderers.set(root, render)
+  }
+  return render!
+}
@@ -0,0 +1,166 @@
+import type { RawSourceMap } from 'source-map-js'
+import type {
+  EachMapping,
+  EncodedSourceMap as TraceEncodedSourceMap,
+} from '@jridgewell/trace-mapping'
+import { TraceMap, eachMapping } from '@jridgewell/trace-mapping'
+import type { EncodedSourceMap as GenEncodedSourceMap } from '@jridgewell/gen-mapping'
+import {
+  GenMapping,
+  addMapping,
+  setSourceContent,
+  toEncodedMap,
+} from '@jridgewell/gen-mapping'
+import { getLineStarts, getLocation } from './location'
+
+// source map 的拼接与改写：主模块由脚本、模板等代码片段拼接而成，
+// 热更新复用的脚本编译结果、预处理器的输出等也需要把映射重新指向正确的位置。
+
+function toTraceMap(map: RawSourceMap): TraceMap {
+  // version property of RawSourceMap is declared as string
+  // but actually it is `3`
+  return new TraceMap(
+    map as Omit<RawSourceMap, 'version'> as TraceEncodedSourceMap,
+  )
+}
+
+function toRawSourceMap(gen: GenMapping): RawSourceMap {
+  // same above
+  return toEncodedMap(gen) as Omit<
+    GenEncodedSourceMap,
+    'version'
+  > as RawSourceMap
+}
+
+function copySourcesContent(gen: GenMapping, tracer: TraceMap): void {
+  tracer.resolvedSources.forEach((source, i) => {
+    const content = tracer.sourcesContent?.[i]
+    if (content != null) {
+      setSourceContent(gen, source, content)
+    }
+  })
+}
+
+// copy a mapping of a source map to a new generated position
+function copyMapping(
+  gen: GenMapping,
+  m: EachMapping,
+  generated: { line: number; column: number },
+): void {
+  if (m.source == null) return
+  const original = { line: m.originalLine, column: m.originalColumn }
+  if (m.name != null) {
+    addMapping(gen, { source: m.source, original, generated, name: m.name })
+  } else {
+    addMapping(gen, { source: m.source, original, generated })
+  }
+}
+
+/**
+ * Source map of chunks of code joined with `\n`, from their own source maps.
+ * Chunks without a source map are left unmapped.
+ */
+export function concatSourceMaps(
+  chunks: { code: string; map: RawSourceMap | undefined }[],
+): RawSourceMap {
+  const gen = new GenMapping()
+  let lineOffset = 0
+  for (const { code, map } of chunks) {
+    if (map) {
+      const tracer = toTraceMap(map)
+      copySourcesContent(gen, tracer)
+      eachMapping(tracer, (m) =>
+        copyMapping(gen, m, {
+          line: m.generatedLine + lineOffset,
+          column: m.generatedColumn,
+        }),
+      )
+    }
+    lineOffset += code.split('\n').length
+  }
+  return toRawSourceMap(gen)
+}
+
+/**
+ * Update the generated positions of `map` after its code was edited within
+ * lines, e.g. by `rewriteDefault()`. Mappings inside the edited part of a
+ * line are dropped, except the one at its start.
+ */
+export function shiftEditedColumns(
+  map: RawSourceMap,
+  code: string,
+  edited: string,
+): RawSourceMap {
+  const lines = code.split('\n')
+  const editedLines = edited.split('\n')
+  // line -> [start of the edit, end of the edit, shift of the columns after]
+  const edits = new Map<number, [number, number, number] | null>()
+  const getEdit = (line: number) => {
+    if (!edits.has(line)) {
+      const before = lines[line - 1] ?? ''
+      const after = editedLines[line - 1] ?? ''
+      let edit: [number, number, number] | null = null
+      if (before !== after) {
+        let prefix = 0
+        while (prefix < before.length && before[prefix] === after[prefix]) {
+          prefix++
+        }
+        let suffix = 0
+        while (
+          suffix < before.length - prefix &&
+          suffix < after.length - prefix &&
+          before[before.length - 1 - suffix] ===
+            after[after.length - 1 - suffix]
+        ) {
+          suffix++
+        }
+        edit = [prefix, before.length - suffix, after.length - before.length]
+      }
+      edits.set(line, edit)
+    }
+    return edits.get(line)!
+  }
+
+  const gen = new GenMapping({ file: map.file })
+  const tracer = toTraceMap(map)
+  copySourcesContent(gen, tracer)
+  eachMapping(tracer, (m) => {
+    let column = m.generatedColumn
+    const edit = getEdit(m.generatedLine)
+    if (edit) {
+      const [start, end, shift] = edit
+      if (column >= end) column += shift
+      else if (column > start) return
+    }
+    copyMapping(gen, m, { line: m.generatedLine, column })
+  })
+  return toRawSourceMap(gen)
+}
+
+/**
+ * Rebuild `map` with the original positions returned by `mapOffset` (offsets
+ * in `source`, the new content of `filename`), dropping the mappings it
+ * returns `undefined` for.
+ */
+export function remapSourceMap(
+  map: RawSourceMap,
+  filename: string,
+  source: string,
+  mapOffset: (line: number, column: number) => number | undefined,
+): RawSourceMap {
+  const lines = getLineStarts(source)
+  const gen = new GenMapping({ file: map.file })
+  setSourceContent(gen, filename, source)
+  eachMapping(toTraceMap(map), (m) => {
+    if (m.source == null) return
+    const offset = mapOffset(m.originalLine, m.originalColumn)
+    if (offset == null) return
+    const { line, column } = getLocation(lines, offset)
+    addMapping(gen, {
+      source: filename,
+      original: { line, column: column - 1 },
+      generated: { line: m.generatedLine, column: m.generatedColumn },
+    })
+  })
+  return toRawSourceMap(gen)
+}
@@ -0,0 +1,89 @@
+import { createRequire } from 'node:module'
+import { parentPort, workerData } from 'node:worker_threads'
+import type * as _compiler from 'vue/compiler-sfc'
+import {
+  isUseInlineTemplate,
+  resolveScript,
+  toSerializableScript,
+} from './script'
+import { resolveTemplateCompilerOptions } from './template'
+import { WORKER_READY, serializeCompilerError } from './parallel'
+import { captureCompilerWarnings } from './utils/error'
+import type { CompileJob, CompileJobResult, WorkerData } from './parallel'
+import type { ResolvedOptions } from '.'
+
+// worker 线程入口：接收主线程发来的 SFC 源码，
+// 执行 compileScript 与（内联到主模块的）compileTemplate，并把可序列化的结果返回。
+
+const { compilerPath, options: rawOptions } = workerData as WorkerData
+const _require = createRequire(import.meta.url)
+const options: ResolvedOptions = {
+  ...rawOptions,
+  compiler: _require(compilerPath) as typeof _compiler,
+}
+
+function compileJob({
+  id,
+  filename,
+  source,
+  descriptorId,
+  ssr,
+}: CompileJob): CompileJobResult {
+  const { descriptor, errors } = options.compiler.parse(source, {
+    filename,
+    sourceMap: options.sourceMap,
+  })
+  if (errors.length) {
+    // parse errors are reported by the main thread
+    return { id }
+  }
+  descriptor.id = descriptorId
+
+  const [script, scriptWarnings] = captureCompilerWarnings(() =>
+    resolveScript(descriptor, options, ssr),
+  )
+  const result: CompileJobResult = {
+    id,
+    script: script && toSerializableScript(script),
+    scriptWarnings,
+  }
+
+  // same conditions as the template being compiled into the main module
+  const template = descriptor.template
+  if (
+    template &&
+    !template.src &&
+    (!template.lang || template.lang === 'html') &&
+    !isUseInlineTemplate(descriptor, true, options)
+  ) {
+    const { code, map, preamble, tips, errors } =
+      options.compiler.compileTemplate({
+        ...resolveTemplateCompilerOptions(descriptor, options, ssr)!,
+        source: template.content,
+      })
+    result.template = {
+      source: template.content,
+      result: {
+        code,
+        map,
+        preamble,
+        tips,
+        source: template.content,
+        errors: errors.map(serializeCompilerError),
+      },
+    }
+  }
+  return result
+}
+
+parentPort!.on('message', (job: CompileJob) => {
+  let result: CompileJobResult
+  try {
+    result = compileJob(job)
+  } catch (e: any) {
+    result = { id: job.id, error: e.message }
+  }
+  parentPort!.postMessage(result)
+})
+
+parentPort!.postMessage(WORKER_READY)
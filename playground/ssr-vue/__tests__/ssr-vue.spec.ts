@@ -118,6 +118,43 @@ test('/', async () => {
   }
 })
 
+test('ssr module registrar', async () => {
+  const html = await (await fetch(url)).text()
+  const modules = JSON.parse(
+    html.match(
+      /<script type="application\/json" id="sfc-modules">(.*?)<\/script>/,
+    )[1],
+  )
+  expect(modules.map((m) => m.file)).toContain('src/App.vue')
+  // excluded by `ssr.registerModules`
+  expect(modules.map((m) => m.file)).not.toContain(
+    'src/components/ImportType.vue',
+  )
+  const home = modules.find((m) => m.file === 'src/pages/Home.vue')
+  expect(home.scopeId).toBe(`data-v-${home.id}`)
+  expect(home.styles).toEqual([
+    `src/pages/Home.vue?vue&type=style&index=0&scoped=${home.id}&lang.css`,
+  ])
+  expect(home.asyncComponents).toEqual(['src/components/Foo.jsx'])
+})
+
+test('ssr critical css', async () => {
+  const html = await (await fetch(url)).text()
+  const styles = [
+    ...html.matchAll(/<style data-sfc-style="([^"]+)">(.*?)<\/style>/gs),
+  ]
+  const home = styles.find(([, id]) => id.startsWith('src/pages/Home.vue?'))
+  expect(home[2]).toMatch(/h1\[data-v-\w{8}\],\s*a\[data-v-\w{8}\]/)
+  expect(home[2]).toMatch('color: green')
+  // the styles of About are not rendered
+  expect(styles.map(([, id]) => id)).not.toContainEqual(
+    expect.stringMatching(/^src\/pages\/About\.vue/),
+  )
+  // each style once
+  const ids = styles.map(([, id]) => id)
+  expect(new Set(ids).size).toBe(ids.length)
+})
+
 test('css', async () => {
   await page.goto(url)
   if (isBuild) {
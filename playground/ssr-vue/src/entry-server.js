@@ -20,7 +20,16 @@ export async function render(url, manifest) {
   // which we can then use to determine what files need to be preloaded for this
   // request.
   const preloadLinks = renderPreloadLinks(ctx.modules, manifest)
-  return [html, preloadLinks]
+  // metadata of the rendered components, recorded by src/ssr-registrar.js
+  const sfcModules = `<script type="application/json" id="sfc-modules">${JSON.stringify(
+    ctx.sfcModules,
+  )}</script>`
+  // critical CSS of the rendered components, collected with `ssr.collectCss`
+  let styles = ''
+  ctx.styles?.forEach((css, id) => {
+    styles += `<style data-sfc-style="${id}">${css}</style>`
+  })
+  return [html, preloadLinks + sfcModules + styles]
 }
 
 function renderPreloadLinks(modules, manifest) {
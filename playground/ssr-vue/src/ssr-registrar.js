@@ -0,0 +1,5 @@
+// called by @vitejs/plugin-vue with the metadata of each component rendered
+// on the server, see the `ssr.registrar` option
+export default function register(ssrContext, module) {
+  ;(ssrContext.sfcModules || (ssrContext.sfcModules = [])).push(module)
+}
@@ -18,7 +18,15 @@ globalThis.__vite_test_dirname = __dirname
 export default defineConfig(({ command, ssrBuild }) => ({
   base,
   plugins: [
-    vuePlugin(),
+    vuePlugin({
+      ssr: {
+        registrar: './src/ssr-registrar.js',
+        registerModules: {
+          exclude: /ImportType\.vue$/,
+        },
+        collectCss: true,
+      },
+    }),
     vueJsx(),
     {
       name: 'virtual',
@@ -1,12 +1,15 @@
 import { URL } from 'node:url'
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping'
 import { describe, expect, test } from 'vitest'
 import {
+  editFile,
   extractSourcemap,
   formatSourcemapForSnapshot,
   isBuild,
   isServe,
   page,
   serverLogs,
+  untilUpdated,
 } from '~utils'
 
 describe.runIf(isServe)('serve:vue-sourcemap', () => {
@@ -21,6 +24,20 @@ describe.runIf(isServe)('serve:vue-sourcemap', () => {
     throw new Error('Style not found: ' + content)
   }
 
+  // original position of `code` in the served module of `file`
+  const getOriginalPosition = async (file: string, code: string) => {
+    const res = await page.request.get(new URL(file, page.url()).href)
+    const js = await res.text()
+    const lines = js.split('\n')
+    const line = lines.findIndex((l) => l.includes(code))
+    expect(line).toBeGreaterThan(-1)
+    const { source, ...position } = originalPositionFor(
+      new TraceMap(extractSourcemap(js)),
+      { line: line + 1, column: lines[line].indexOf(code) },
+    )
+    return { source: source?.split('/').pop(), ...position }
+  }
+
   // Temporal skip after https://github.com/vitejs/vite/pull/12079
   test.skip('js', async () => {
     const res = await page.request.get(new URL('./Js.vue', page.url()).href)
@@ -37,6 +54,49 @@ describe.runIf(isServe)('serve:vue-sourcemap', () => {
     expect(formatSourcemapForSnapshot(map)).toMatchSnapshot('serve-ts')
   })
 
+  test('js blocks mapping', async () => {
+    expect(
+      await getOriginalPosition('./Js.vue', "console.log('script')"),
+    ).toMatchObject({ source: 'Js.vue', line: 6, column: 0 })
+    expect(
+      await getOriginalPosition('./Js.vue', "console.log('setup')"),
+    ).toMatchObject({ source: 'Js.vue', line: 10, column: 0 })
+    expect(await getOriginalPosition('./Js.vue', '"<js>"')).toMatchObject({
+      source: 'Js.vue',
+      line: 2,
+      column: 5,
+    })
+  })
+
+  test('ts blocks mapping', async () => {
+    expect(
+      await getOriginalPosition('./Ts.vue', 'console.log("ts script")'),
+    ).toMatchObject({ source: 'Ts.vue', line: 6, column: 0 })
+    expect(
+      await getOriginalPosition('./Ts.vue', 'console.log("ts setup")'),
+    ).toMatchObject({ source: 'Ts.vue', line: 10, column: 0 })
+    expect(await getOriginalPosition('./Ts.vue', '"<ts>"')).toMatchObject({
+      source: 'Ts.vue',
+      line: 2,
+      column: 5,
+    })
+  })
+
+  test('no script mapping', async () => {
+    expect(
+      await getOriginalPosition('./NoScript.vue', '"<no-script>"'),
+    ).toMatchObject({ source: 'NoScript.vue', line: 2, column: 5 })
+  })
+
+  test('no template mapping', async () => {
+    expect(
+      await getOriginalPosition('./NoTemplate.vue', "console.log('script')"),
+    ).toMatchObject({ source: 'NoTemplate.vue', line: 2, column: 0 })
+    expect(
+      await getOriginalPosition('./NoTemplate.vue', "console.log('setup')"),
+    ).toMatchObject({ source: 'NoTemplate.vue', line: 6, column: 0 })
+  })
+
   test('css', async () => {
     const css = await getStyleTagContentIncluding('.css ')
     const map = extractSourcemap(css)
@@ -112,6 +172,28 @@ describe.runIf(isServe)('serve:vue-sourcemap', () => {
     const map = extractSourcemap(js)
     expect(formatSourcemapForSnapshot(map)).toMatchSnapshot('serve-no-template')
   })
+
+  test('script mapping after template-only update', async () => {
+    // the compiled script is reused, but its lines have moved
+    editFile('Ts.vue', (code) =>
+      code.replace('<p>&lt;ts&gt;</p>', '<p>&lt;ts&gt;</p>\n  <p>updated</p>'),
+    )
+    await untilUpdated(
+      async () =>
+        JSON.stringify(
+          await getOriginalPosition('./Ts.vue', 'console.log("ts setup")'),
+        ),
+      '"line":11',
+    )
+    expect(
+      await getOriginalPosition('./Ts.vue', 'console.log("ts script")'),
+    ).toMatchObject({ source: 'Ts.vue', line: 7, column: 0 })
+    expect(await getOriginalPosition('./Ts.vue', '"updated"')).toMatchObject({
+      source: 'Ts.vue',
+      line: 3,
+      column: 5,
+    })
+  })
 })
 
 test.runIf(isBuild)('should not output sourcemap warning (#4939)', () => {
@@ -11,8 +11,14 @@ export const vueI18nPlugin: Plugin = {
       code = JSON.stringify(load(code.trim()))
     }
     return {
-      code: `export default Comp => {
-      Comp.i18n = ${code}
+      code: `const messages = ${code}
+    export default Comp => {
+      Comp.i18n = messages
+    }
+    export const hotUpdate = Comp => {
+      for (const locale in messages) {
+        Object.assign(Comp.i18n[locale] || (Comp.i18n[locale] = {}), messages[locale])
+      }
     }`,
       map: { mappings: '' },
     }
@@ -0,0 +1,32 @@
+import type { MarkdownOptions } from '@vitejs/plugin-vue'
+
+const escapeHtml = (code: string) =>
+  code.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+// a toy markdown renderer: headings, fenced code, raw HTML lines and
+// paragraphs
+export const renderMarkdown: MarkdownOptions['render'] = (markdown) => {
+  let html = ''
+  for (const block of markdown.split(/\n{2,}/)) {
+    const text = block.trim()
+    const heading = text.match(/^(#{1,6}) (.*)$/)
+    const fence = text.match(/^```(\w*)\n([\s\S]*?)\n```$/)
+    if (!text) {
+      continue
+    } else if (heading) {
+      html += `<h${heading[1].length}>${heading[2]}</h${heading[1].length}>\n`
+    } else if (fence) {
+      html += `<pre><code class="language-${fence[1]}">${escapeHtml(
+        fence[2],
+      )}</code></pre>\n`
+    } else if (text.startsWith('<')) {
+      html += `${text}\n`
+    } else {
+      html += `<p>${text.replace(
+        /\*\*(.+?)\*\*/g,
+        '<strong>$1</strong>',
+      )}</p>\n`
+    }
+  }
+  return html
+}
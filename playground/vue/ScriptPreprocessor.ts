@@ -0,0 +1,18 @@
+import { MagicString } from 'vue/compiler-sfc'
+import type { ScriptPreprocessor } from '@vitejs/plugin-vue'
+
+// a toy script language with a pipeline operator: `value |> fn` is `fn(value)`
+export const pipePreprocessor: ScriptPreprocessor = (code, { filename }) => {
+  const s = new MagicString(code)
+  for (const match of code.matchAll(/([\w.]+) \|> (\w+)/g)) {
+    s.overwrite(
+      match.index!,
+      match.index! + match[0].length,
+      `${match[2]}(${match[1]})`,
+    )
+  }
+  return {
+    code: s.toString(),
+    map: s.generateMap({ source: filename, hires: true }),
+  }
+}
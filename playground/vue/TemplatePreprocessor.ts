@@ -0,0 +1,27 @@
+import { MagicString } from 'vue/compiler-sfc'
+import type { TemplatePreprocessor } from '@vitejs/plugin-vue'
+
+// a toy handlebars-like template language compiled asynchronously:
+// `{{#if cond}}...{{/if}}` and `{{#each list as item}}...{{/each}}`
+export const hbsPreprocessor: TemplatePreprocessor = async (
+  code,
+  { filename },
+) => {
+  await new Promise((resolve) => setTimeout(resolve))
+  const s = new MagicString(code)
+  const replace = (re: RegExp, fn: (match: RegExpMatchArray) => string) => {
+    for (const match of code.matchAll(re)) {
+      s.overwrite(match.index!, match.index! + match[0].length, fn(match))
+    }
+  }
+  replace(/{{#if (.+?)}}/g, (m) => `<template v-if="${m[1]}">`)
+  replace(
+    /{{#each (\w+) as (\w+)}}/g,
+    (m) => `<template v-for="${m[2]} in ${m[1]}">`,
+  )
+  replace(/{{\/(if|each)}}/g, () => `</template>`)
+  return {
+    code: s.toString(),
+    map: s.generateMap({ source: filename, hires: true }),
+  }
+}
@@ -6,9 +6,11 @@ import {
   getBg,
   getColor,
   isBuild,
+  isServe,
   page,
   serverLogs,
   untilUpdated,
+  viteTestUrl,
 } from '~utils'
 
 test('should render', async () => {
@@ -105,6 +107,30 @@ describe('pre-processors', () => {
     )
     await untilUpdated(() => page.textContent('p.pug-hmr'), 'post-hmr')
   })
+
+  test('script preprocessor', async () => {
+    expect(await page.textContent('.script-preprocessor')).toMatch(
+      '0 doubled is 0',
+    )
+    await page.click('.script-preprocessor')
+    expect(await page.textContent('.script-preprocessor')).toMatch(
+      '2 doubled is 4',
+    )
+  })
+
+  test('template preprocessor', async () => {
+    expect(await page.textContent('.template-preprocessor')).toMatch('abc')
+    expect(await page.textContent('.template-preprocessor-if')).toMatch(
+      'more than two items',
+    )
+    editFile('TemplatePreprocessor.vue', (code) =>
+      code.replace('more than two items', 'at least three items'),
+    )
+    await untilUpdated(
+      () => page.textContent('.template-preprocessor-if'),
+      'at least three items',
+    )
+  })
 })
 
 describe('css modules', () => {
@@ -184,6 +210,30 @@ describe('hmr', () => {
     expect(await page.textContent('.hmr-inc')).toMatch('count is 1')
   })
 
+  test('should update CSS vars and preserve state when v-bind is added to style', async () => {
+    editFile('Hmr.vue', (code) =>
+      code.replace(
+        'color: blue;',
+        `color: v-bind('count > 0 ? "green" : "red"');`,
+      ),
+    )
+    await untilUpdated(() => getColor('.hmr-inc'), 'green')
+    expect(await page.textContent('.hmr-inc')).toMatch('count is 1')
+  })
+
+  test('should re-render and preserve state when template mentions an unused import', async () => {
+    // `ref` is imported but only used in the script. `$attrs.ref` textually
+    // matches it without referencing the import.
+    editFile('Hmr.vue', (code) =>
+      code.replace(
+        '<button',
+        '<p class="hmr-ref">{{ String($attrs.ref) }}</p>\n  <button',
+      ),
+    )
+    await untilUpdated(() => page.textContent('.hmr-ref'), 'undefined')
+    expect(await page.textContent('.hmr-inc')).toMatch('count is 1')
+  })
+
   test('should reload and reset state when script is edited', async () => {
     editFile('Hmr.vue', (code) =>
       code.replace('let foo: number = 0', 'let foo: number = 100'),
@@ -232,6 +282,23 @@ describe('src imports', () => {
     await untilUpdated(() => getColor(el), 'red')
   })
 
+  test('scoped style src shared by multiple components hmr', async () => {
+    // rendered by `SrcImport.vue` and `srcImportStyle.vue`, which both use
+    // `style.css` as a scoped style
+    const els = await page.$$('.src-imports-script')
+    expect(els.length).toBe(2)
+    editFile(
+      'src-import/style.css',
+      (code) => code + '\n.src-imports-script {\n  font-weight: bold;\n}\n',
+    )
+    for (const el of els) {
+      await untilUpdated(
+        () => el.evaluate((el) => getComputedStyle(el).fontWeight),
+        '700',
+      )
+    }
+  })
+
   test('template src import hmr', async () => {
     const el = await page.$('.src-imports-style')
     editFile('src-import/template.html', (code) =>
@@ -239,12 +306,88 @@ describe('src imports', () => {
     )
     await untilUpdated(() => el.textContent(), 'should be red')
   })
+
+  test('template src shared by multiple components hmr', async () => {
+    expect(await page.textContent('.src-imports-shared-template')).toBe(
+      'shared template 1',
+    )
+    expect(await page.textContent('.src-imports-shared-template2')).toBe(
+      'shared template 2',
+    )
+    editFile('src-import/sharedTemplate.html', (code) =>
+      code.replace('{{ msg }}', '{{ msg }} (updated)'),
+    )
+    await untilUpdated(
+      () => page.textContent('.src-imports-shared-template'),
+      'shared template 1 (updated)',
+    )
+    await untilUpdated(
+      () => page.textContent('.src-imports-shared-template2'),
+      'shared template 2 (updated)',
+    )
+  })
 })
 
 describe('custom blocks', () => {
   test('should work', async () => {
     expect(await page.textContent('.custom-block')).toMatch('こんにちは')
   })
+
+  test('should transform with the customBlocks option', async () => {
+    expect(await page.textContent('.custom-block-route')).toBe('custom-block')
+  })
+
+  test('should warn about unhandled custom blocks', () => {
+    expect(
+      serverLogs.some((log) =>
+        log.includes('<story> block is not handled by any plugin'),
+      ),
+    ).toBe(true)
+  })
+
+  test.runIf(isServe)(
+    'should hot update custom block and preserve state',
+    async () => {
+      await page.click('.custom-block-inc')
+      expect(await page.textContent('.custom-block-inc')).toMatch('count is 1')
+      editFile('CustomBlock.vue', (code) =>
+        code.replace('こんにちは、vite！', 'こんにちは、vite! (updated)'),
+      )
+      await untilUpdated(
+        () => page.textContent('.custom-block'),
+        'こんにちは、vite! (updated)',
+      )
+      expect(await page.textContent('.custom-block-inc')).toMatch('count is 1')
+    },
+  )
+})
+
+describe('markdown', () => {
+  test('should render as a component', async () => {
+    expect(await page.textContent('.markdown-text')).toMatch(
+      'Rendered from **markdown**',
+    )
+    expect(await page.textContent('h2:has(+ .markdown-text)')).toBe(
+      'Markdown Component',
+    )
+    expect(await page.textContent('.language-text')).toBe(
+      '{{ not interpolated }}',
+    )
+    expect(await getColor('.markdown-text')).toBe('green')
+  })
+
+  test.runIf(isServe)('should hot update and preserve state', async () => {
+    await page.click('.markdown-counter')
+    expect(await page.textContent('.markdown-counter')).toBe('1')
+    editFile('Markdown.md', (code) =>
+      code.replace('Rendered from', 'Written in'),
+    )
+    await untilUpdated(
+      () => page.textContent('.markdown-text'),
+      'Written in **markdown**',
+    )
+    expect(await page.textContent('.markdown-counter')).toBe('1')
+  })
 })
 
 describe('async component', () => {
@@ -345,6 +488,53 @@ describe('default langs', () => {
   })
 })
 
+describe('scope id', () => {
+  test('should be prefixed', async () => {
+    const attrs = await page.$eval('.default-langs', (el) =>
+      el.getAttributeNames(),
+    )
+    expect(attrs).toContainEqual(
+      expect.stringMatching(/^data-v-app-[\da-f]{8}$/),
+    )
+    expect(await getColor('.default-langs')).toBe('blue')
+  })
+})
+
+describe('devtools', () => {
+  test('should expose metadata', async () => {
+    expect(await page.textContent('.devtools-file')).toBe('devtools-info.vue')
+    expect(await page.textContent('.devtools-name')).toBe('DevtoolsInfo')
+    expect(
+      JSON.parse(await page.textContent('.devtools-locations')),
+    ).toMatchObject({
+      template: { line: 1, column: 11 },
+      script: { line: 8, column: 9 },
+    })
+  })
+})
+
+describe('inspector', () => {
+  test.runIf(isServe)('should add template locations', async () => {
+    expect(await page.getAttribute('.devtools-file', 'data-v-inspector')).toBe(
+      'devtools-info.vue:3:3',
+    )
+    expect(await page.getAttribute('.devtools-name', 'data-v-inspector')).toBe(
+      'devtools-info.vue:4:3',
+    )
+  })
+
+  test.runIf(isBuild)('should not add template locations', async () => {
+    expect(
+      await page.getAttribute('.devtools-file', 'data-v-inspector'),
+    ).toBeNull()
+  })
+
+  test.runIf(isServe)('should require a file to open', async () => {
+    const res = await fetch(viteTestUrl + '/__open-in-editor')
+    expect(res.status).toBe(400)
+  })
+})
+
 describe('pre-compiled components', () => {
   test('should work', async () => {
     expect(await getColor('.pre-compiled-title')).toBe('red')
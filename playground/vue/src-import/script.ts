@@ -3,6 +3,8 @@ import SrcImportStyle from './srcImportStyle.vue'
 import SrcImportStyle2 from './srcImportStyle2.vue'
 import SrcImportModuleStyle from './srcImportModuleStyle.vue'
 import SrcImportModuleStyle2 from './srcImportModuleStyle2.vue'
+import SrcImportSharedTemplate from './srcImportSharedTemplate.vue'
+import SrcImportSharedTemplate2 from './srcImportSharedTemplate2.vue'
 
 export default defineComponent({
   components: {
@@ -10,6 +12,8 @@ export default defineComponent({
     SrcImportStyle2,
     SrcImportModuleStyle,
     SrcImportModuleStyle2,
+    SrcImportSharedTemplate,
+    SrcImportSharedTemplate2,
   },
   setup() {
     return {
@@ -1,6 +1,9 @@
 import { defineConfig, splitVendorChunkPlugin } from 'vite'
 import vuePlugin from '@vitejs/plugin-vue'
 import { vueI18nPlugin } from './CustomBlockPlugin'
+import { pipePreprocessor } from './ScriptPreprocessor'
+import { hbsPreprocessor } from './TemplatePreprocessor'
+import { renderMarkdown } from './Markdown'
 
 export default defineConfig({
   resolve: {
@@ -12,6 +15,28 @@ export default defineConfig({
   plugins: [
     vuePlugin({
       reactivityTransform: true,
+      script: {
+        preprocessors: { pipe: pipePreprocessor },
+      },
+      template: {
+        preprocessors: { hbs: hbsPreprocessor },
+      },
+      customBlocks: {
+        route: (_, { data }) =>
+          `export default Comp => { Comp.route = ${JSON.stringify(data)} }`,
+        docs: 'strip',
+      },
+      markdown: {
+        render: renderMarkdown,
+      },
+      scopeId: 'path',
+      scopeIdPrefix: 'app-',
+      devtools: {
+        file: 'relative',
+        name: true,
+        sourceLocations: true,
+      },
+      inspector: true,
     }),
     splitVendorChunkPlugin(),
     vueI18nPlugin,
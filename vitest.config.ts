@@ -9,6 +9,8 @@ export default defineConfig({
       './playground-temp/**/*.*',
     ],
     testTimeout: 20000,
+    // builds the plugin for the tests running compile workers
+    globalSetup: ['./packages/plugin-vue/src/__tests__/globalSetup.ts'],
   },
   esbuild: {
     target: 'node14',